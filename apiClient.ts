@@ -0,0 +1,160 @@
+import type { ApiResponse, ErrorResponse, SuccessResponse } from './apiResponse.ts';
+
+/* API CLIENT TRANSPORT
+Browser- and Node-safe: this file (and usersClient.ts) only imports
+types from the server modules, so no server code ends up in a bundle.
+
+Narrowing on `status` gives consumers compile-time safety:
+
+    const response = await requestApi<PublicUser>("/api/users/1");
+    if (isSuccess(response)) response.data.email;   // PublicUser
+    else response.code;                              // ErrorResponse
+*/
+export function isSuccess<T>(response: ApiResponse<T>): response is SuccessResponse<T> {
+    return response.status === "success";
+}
+
+export function isError<T>(response: ApiResponse<T>): response is ErrorResponse {
+    return response.status === "error";
+}
+
+/* ERRORS
+Every failure is one of these classes, so callers narrow with instanceof:
+
+    catch (err) {
+        if (err instanceof ApiRequestError && err.status === 404) ...
+        else if (err instanceof TimeoutError) ...
+    }
+*/
+export class ClientError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+}
+
+// The server answered with an ErrorResponse
+export class ApiRequestError extends ClientError {
+    readonly status: number;
+    readonly code: string;
+    readonly response: ErrorResponse;
+
+    constructor(status: number, response: ErrorResponse) {
+        super(response.error);
+        this.status = status;
+        this.code = response.code;
+        this.response = response;
+    }
+}
+
+// The request never got an answer (DNS, connection refused, reset...)
+export class NetworkError extends ClientError {}
+
+// No answer within `timeoutMs`
+export class TimeoutError extends ClientError {}
+
+// Cancelled through the caller's AbortSignal
+export class AbortError extends ClientError {}
+
+export function unwrap<T>(response: ApiResponse<T>, status = 0): T {
+    if (isError(response)) throw new ApiRequestError(status, response);
+    return response.data;
+}
+
+/* REQUESTS */
+export interface RequestOptions {
+    method?: string;
+    body?: unknown;
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+    timeoutMs?: number;     // per attempt, default 10 s
+    retries?: number;       // extra attempts, default 2 for idempotent methods, 0 otherwise
+    fetch?: typeof fetch;   // injectable for tests
+}
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const BASE_DELAY_MS = 200;
+const MAX_DELAY_MS = 5_000;
+const RETRYABLE_STATUS = new Set([408, 429, 502, 503, 504]);
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "PUT", "DELETE", "OPTIONS"]);
+
+// Exponential backoff with full jitter; a Retry-After header wins when present
+function retryDelay(attempt: number, retryAfter: string | null): number {
+    const seconds = retryAfter === null ? NaN : Number(retryAfter);
+    if (Number.isFinite(seconds)) return Math.min(seconds * 1000, MAX_DELAY_MS);
+    return Math.random() * Math.min(BASE_DELAY_MS * 2 ** attempt, MAX_DELAY_MS);
+}
+
+// The abort listener is removed once the delay is over, so a long-lived signal does not collect them
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AbortError("Request aborted"));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+// One attempt: resolves with the parsed envelope or throws a ClientError
+async function attempt<T>(url: string | URL, init: RequestInit, options: RequestOptions): Promise<{ status: number; retryAfter: string | null; body: ApiResponse<T> }> {
+    const timeout = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    const signal = options.signal ? AbortSignal.any([options.signal, timeout]) : timeout;
+
+    let response: Response;
+    try {
+        response = await (options.fetch ?? fetch)(url, { ...init, signal });
+    } catch (err) {
+        if (options.signal?.aborted) throw new AbortError("Request aborted", { cause: err });
+        if (timeout.aborted) throw new TimeoutError(`No response within ${options.timeoutMs ?? DEFAULT_TIMEOUT_MS} ms`, { cause: err });
+        throw new NetworkError("Network request failed", { cause: err });
+    }
+
+    const retryAfter = response.headers.get("Retry-After");
+    // 204 No Content has no envelope
+    if (response.status === 204) {
+        return { status: 204, retryAfter, body: { status: "success", data: undefined as T, meta: {} } };
+    }
+    try {
+        return { status: response.status, retryAfter, body: await response.json() as ApiResponse<T> };
+    } catch (err) {
+        throw new NetworkError(`Expected a JSON response, got HTTP ${response.status}`, { cause: err });
+    }
+}
+
+/* Sends one request with timeout, abort and retries; resolves with the data or throws a ClientError */
+export async function requestApi<T>(url: string | URL, options: RequestOptions = {}): Promise<SuccessResponse<T>> {
+    const method = (options.method ?? "GET").toUpperCase();
+    const headers: Record<string, string> = { Accept: "application/json", ...options.headers };
+    const init: RequestInit = { method, headers };
+    if (options.body !== undefined) {
+        headers["Content-Type"] = "application/json";
+        init.body = JSON.stringify(options.body);
+    }
+
+    const retries = options.retries ?? (IDEMPOTENT_METHODS.has(method) ? 2 : 0);
+    for (let attemptNumber = 0; ; attemptNumber++) {
+        const canRetry = attemptNumber < retries;
+        try {
+            const { status, retryAfter, body } = await attempt<T>(url, init, options);
+            if (isSuccess(body)) return body;
+            // The attempt that timed out or failed may have deleted it already
+            if (method === "DELETE" && status === 404 && attemptNumber > 0) {
+                return { status: "success", data: undefined as T, meta: {} };
+            }
+            if (canRetry && RETRYABLE_STATUS.has(status)) {
+                await sleep(retryDelay(attemptNumber, retryAfter), options.signal);
+                continue;
+            }
+            throw new ApiRequestError(status, body);
+        } catch (err) {
+            const transient = err instanceof NetworkError || err instanceof TimeoutError;
+            if (!canRetry || !transient) throw err;
+            await sleep(retryDelay(attemptNumber, null), options.signal);
+        }
+    }
+}
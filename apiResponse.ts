@@ -0,0 +1,74 @@
+import { randomUUID } from 'node:crypto';
+import type { Request, Response, NextFunction } from 'express';
+import type { ValidationIssue } from './validation.ts';
+import type { PolicyDenial } from './policy.ts';
+import type { ReadinessReport } from './health.ts';
+
+/* RESPONSE ENVELOPE
+Generic version of the SuccessResponse | ErrorResponse union from
+example-scripts/UnionAndIntersectionTypes.ts. Every JSON route answers
+with one of these two shapes, discriminated by the literal `status`.
+The client side (narrowing, fetch helpers) lives in apiClient.ts*/
+export interface PaginationMeta {
+    total: number;
+    limit: number;
+    page?: number;
+    nextCursor?: string | null;
+    links?: Record<string, string | null>;
+}
+
+export interface ResponseMeta {
+    requestId?: string;
+    pagination?: PaginationMeta;
+}
+
+export interface SuccessResponse<T> {
+    status: "success";
+    data: T;
+    meta: ResponseMeta;
+}
+
+export interface ErrorResponse {
+    status: "error";
+    error: string;                  // human-readable message
+    code: string;                   // machine-readable, e.g. "not_found"
+    details?: ValidationIssue[];    // per-field problems (validation errors only)
+    policy?: PolicyDenial;          // why access was refused (403 only)
+    health?: ReadinessReport;       // failing readiness checks (503 from /health/ready only)
+    meta: ResponseMeta;
+}
+
+export type ApiResponse<T> = SuccessResponse<T> | ErrorResponse;
+
+/* REQUEST ID
+Every request gets an id, echoed in X-Request-Id, in `meta.requestId`
+and in every log line. An id sent by the caller (or a proxy in front of
+us) is kept, so one id can follow a request across services*/
+declare global {
+    namespace Express {
+        interface Locals {
+            requestId: string;
+        }
+    }
+}
+
+// Anything else is replaced, so a caller cannot inject arbitrary text into the logs
+const INCOMING_REQUEST_ID = /^[\w.:-]{1,128}$/;
+
+export function assignRequestId(req: Request, res: Response, next: NextFunction): void {
+    const incoming = req.get("X-Request-Id");
+    res.locals.requestId = incoming !== undefined && INCOMING_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+    res.setHeader("X-Request-Id", res.locals.requestId);
+    next();
+}
+
+/* SERVER HELPERS */
+export function responseMeta(res: Response, extra: Omit<ResponseMeta, "requestId"> = {}): ResponseMeta {
+    return { requestId: res.locals.requestId, ...extra };
+}
+
+// Typing `res` as Response<ApiResponse<T>> in a handler pins down what it may send
+export function sendSuccess<T>(res: Response<ApiResponse<T>>, statusCode: number, data: T, extra: Omit<ResponseMeta, "requestId"> = {}): void {
+    const body: SuccessResponse<T> = { status: "success", data, meta: responseMeta(res, extra) };
+    res.status(statusCode).json(body);
+}
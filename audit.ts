@@ -0,0 +1,178 @@
+import { appendFile, mkdir } from 'node:fs/promises';
+import { createReadStream } from 'node:fs';
+import { dirname } from 'node:path';
+import { createInterface } from 'node:readline';
+import type { Response } from 'express';
+import type { Schema } from './validation.ts';
+import type { UserData } from './users.ts';
+import type { Role } from './policy.ts';
+import { UlidIdGenerator, type UserId } from './idGenerator.ts';
+import { canonicalJson } from './etag.ts';
+
+/* AUDIT LOG
+Append-only record of every change made to a user: who (actor), when,
+in which request, and the before/after value of each field that changed.
+Entries are never updated or removed by the API. Password hashes are
+not copied into the log: a password change shows up as "[REDACTED]"*/
+export type AuditAction = "create" | "update" | "delete" | "restore" | "purge";
+
+export interface AuditActor {
+    id: UserId;
+    role: Role;
+}
+
+export interface FieldChange {
+    field: string;
+    before?: unknown;       // absent when the field did not exist (create)
+    after?: unknown;        // absent when the field was removed (restore, purge)
+}
+
+export interface AuditEntry {
+    id: string;             // ULID, so ids sort by time
+    at: string;             // ISO 8601
+    action: AuditAction;
+    userId: UserId;
+    actor?: AuditActor;     // absent for system jobs
+    requestId?: string;
+    changes: FieldChange[];
+}
+
+export const auditEntrySchema: Schema<AuditEntry> = {
+    id: { type: "string" },
+    at: { type: "string" },
+    action: { type: "string", enum: ["create", "update", "delete", "restore", "purge"] },
+    userId: { type: "id" },
+    actor: { type: "object", optional: true, fields: { id: { type: "id" }, role: { type: "string" } } },
+    requestId: { type: "string", optional: true },
+    changes: {
+        type: "array",
+        items: {
+            type: "object",
+            fields: { field: { type: "string" }, before: { type: "any", optional: true }, after: { type: "any", optional: true } }
+        }
+    }
+};
+
+/* DIFF */
+const REDACTED_FIELDS = new Set(["passwordHash"]);
+
+function auditValue(field: string, value: unknown): unknown {
+    return REDACTED_FIELDS.has(field) ? "[REDACTED]" : value;
+}
+
+// One FieldChange per field whose value differs; the id never changes
+export function diffUsers(before: UserData | undefined, after: UserData | undefined): FieldChange[] {
+    const b = (before ?? {}) as Record<string, unknown>;
+    const a = (after ?? {}) as Record<string, unknown>;
+    const fields = [...new Set([...Object.keys(b), ...Object.keys(a)])].filter(field => field !== "id").sort();
+
+    const changes: FieldChange[] = [];
+    for (const field of fields) {
+        if (canonicalJson(b[field]) === canonicalJson(a[field])) continue;
+        const change: FieldChange = { field };
+        if (b[field] !== undefined) change.before = auditValue(field, b[field]);
+        if (a[field] !== undefined) change.after = auditValue(field, a[field]);
+        changes.push(change);
+    }
+    return changes;
+}
+
+/* STORE CONTRACT */
+export interface AuditLog {
+    append(entry: AuditEntry): Promise<void>;
+    // Oldest first
+    findByUser(userId: UserId): Promise<AuditEntry[]>;
+}
+
+/* IN-MEMORY IMPLEMENTATION */
+export class InMemoryAuditLog implements AuditLog {
+    private entries: AuditEntry[] = [];
+
+    async append(entry: AuditEntry): Promise<void> {
+        this.entries.push(structuredClone(entry));
+    }
+
+    async findByUser(userId: UserId): Promise<AuditEntry[]> {
+        return this.entries.filter(entry => entry.userId === userId).map(entry => structuredClone(entry));
+    }
+}
+
+/* JSON LINES IMPLEMENTATION
+One entry per line, only ever appended to, so an entry that made it to
+disk is never rewritten. Appends are chained to keep lines in order;
+reads stream the file instead of loading it whole*/
+export class JsonLinesAuditLog implements AuditLog {
+    readonly filePath: string;
+    private appending: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    append(entry: AuditEntry): Promise<void> {
+        const line = JSON.stringify(entry) + "\n";
+        const next = this.appending.then(async () => {
+            await mkdir(dirname(this.filePath), { recursive: true });
+            await appendFile(this.filePath, line, "utf8");
+        });
+        this.appending = next.catch(() => {});
+        return next;
+    }
+
+    async findByUser(userId: UserId): Promise<AuditEntry[]> {
+        await this.appending;
+        const entries: AuditEntry[] = [];
+        const lines = createInterface({ input: createReadStream(this.filePath, "utf8"), crlfDelay: Infinity });
+        try {
+            for await (const line of lines) {
+                if (line.trim() === "") continue;
+                const entry = JSON.parse(line) as AuditEntry;
+                if (entry.userId === userId) entries.push(entry);
+            }
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+            throw err;
+        }
+        return entries;
+    }
+
+    flush(): Promise<void> {
+        return this.appending;
+    }
+}
+
+/* RECORDING
+users.ts calls recordChange() after every successful write*/
+let auditLog: AuditLog = new InMemoryAuditLog();
+const entryIds = new UlidIdGenerator();
+
+export function useAuditLog(log: AuditLog): void {
+    auditLog = log;
+}
+
+export function getAuditLog(): AuditLog {
+    return auditLog;
+}
+
+// `res` is undefined for system jobs (no actor, no request id)
+export async function recordChange(
+    res: Response | undefined,
+    action: AuditAction,
+    before: UserData | undefined,
+    after: UserData | undefined
+): Promise<void> {
+    const userId = (after ?? before)?.id;
+    if (userId === undefined) return;
+
+    const principal = res?.locals.auth?.user;
+    const requestId = res?.locals.requestId;
+    await auditLog.append({
+        id: entryIds.next(),
+        at: new Date().toISOString(),
+        action,
+        userId,
+        ...(principal ? { actor: { id: principal.id, role: principal.role } } : {}),
+        ...(requestId ? { requestId } : {}),
+        changes: diffUsers(before, after)
+    });
+}
@@ -0,0 +1,205 @@
+import { createHash, randomBytes, randomUUID } from 'node:crypto';
+import type { Request, Response, NextFunction } from 'express';
+import type { Schema } from './validation.ts';
+import type { UserId } from './idGenerator.ts';
+import type { UserData } from './users.ts';
+import { findUserByEmail, findUserByRawId } from './users.ts';
+import { InMemoryAuthStore, type AuthStore } from './authStore.ts';
+import { signJwt, verifyJwt } from './jwt.ts';
+import { hashPasswordSync, verifyPassword } from './passwords.ts';
+import { UnauthorizedError } from './errors.ts';
+import { sendSuccess, type ApiResponse } from './apiResponse.ts';
+
+/* AUTHENTICATION FLOW
+1. POST /api/auth/login    email + password → access token (JWT) + refresh token
+2. Authorization: Bearer <access token> on protected routes (requireAuth)
+3. POST /api/auth/refresh  refresh token → a NEW pair; the old refresh token
+   is spent. Presenting a spent one again means it leaked, so the whole
+   family of tokens derived from the same login is revoked
+4. POST /api/auth/logout   revokes the access token and its refresh family*/
+export interface LoginInput {
+    email: string;
+    password: string;
+}
+
+export interface RefreshInput {
+    refreshToken: string;
+}
+
+// The body is optional on logout, so it is checked by hand instead of by a schema
+export interface LogoutInput {
+    refreshToken?: string;
+}
+
+export const loginSchema: Schema<LoginInput> = {
+    email: { type: "string", format: "email" },
+    password: { type: "string", min: 1 }
+};
+
+export const refreshSchema: Schema<RefreshInput> = {
+    refreshToken: { type: "string", min: 1 }
+};
+
+export interface TokenPair {
+    tokenType: "Bearer";
+    accessToken: string;
+    expiresIn: number;      // seconds until the access token expires
+    refreshToken: string;
+}
+
+export const tokenPairSchema: Schema<TokenPair> = {
+    tokenType: { type: "string", enum: ["Bearer"] },
+    accessToken: { type: "string" },
+    expiresIn: { type: "number", integer: true },
+    refreshToken: { type: "string" }
+};
+
+// Set by requireAuth for the handlers that run after it
+export interface AuthContext {
+    userId: UserId;
+    user: UserData;         // loaded fresh on every request, so role changes apply at once
+    tokenId: string;
+    expiresAt: number;      // ms since epoch
+}
+
+declare global {
+    namespace Express {
+        interface Locals {
+            auth?: AuthContext;
+        }
+    }
+}
+
+/* SETTINGS
+server.js calls configureAuth() with the real secret and a persistent store*/
+export interface AuthSettings {
+    secret: string;
+    store: AuthStore;
+    accessTokenTtl: number;     // seconds
+    refreshTokenTtl: number;    // seconds
+}
+
+let settings: AuthSettings = {
+    // Random per process: tokens stop working on restart until a secret is configured
+    secret: randomBytes(32).toString("hex"),
+    store: new InMemoryAuthStore(),
+    accessTokenTtl: 15 * 60,
+    refreshTokenTtl: 7 * 24 * 60 * 60
+};
+
+export function configureAuth(options: { [K in keyof AuthSettings]?: AuthSettings[K] | undefined }): void {
+    settings = {
+        secret: options.secret ?? settings.secret,
+        store: options.store ?? settings.store,
+        accessTokenTtl: options.accessTokenTtl ?? settings.accessTokenTtl,
+        refreshTokenTtl: options.refreshTokenTtl ?? settings.refreshTokenTtl
+    };
+}
+
+/* TOKENS */
+function hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex");
+}
+
+async function issueTokens(user: UserData, familyId: string = randomUUID()): Promise<TokenPair> {
+    const now = Math.floor(Date.now() / 1000);
+    const accessToken = signJwt(
+        { sub: String(user.id), jti: randomUUID(), iat: now, exp: now + settings.accessTokenTtl, typ: "access" },
+        settings.secret
+    );
+
+    const refreshToken = randomBytes(32).toString("base64url");
+    await settings.store.saveRefreshToken({
+        tokenHash: hashToken(refreshToken),
+        userId: user.id,
+        familyId,
+        expiresAt: (now + settings.refreshTokenTtl) * 1000
+    });
+
+    return { tokenType: "Bearer", accessToken, expiresIn: settings.accessTokenTtl, refreshToken };
+}
+
+// Compared against when the email is unknown, so both cases take the same time
+const DUMMY_HASH = hashPasswordSync(randomUUID());
+
+/* HANDLERS */
+export async function login(req: Request<{}, {}, LoginInput>, res: Response<ApiResponse<TokenPair>>): Promise<void> {
+    const user = await findUserByEmail(req.body.email);
+    const valid = await verifyPassword(req.body.password, user?.passwordHash ?? DUMMY_HASH);
+    if (!user || !user.passwordHash || !valid) {
+        throw new UnauthorizedError("Invalid email or password");
+    }
+    sendSuccess(res, 200, await issueTokens(user));
+}
+
+export async function refresh(req: Request<{}, {}, RefreshInput>, res: Response<ApiResponse<TokenPair>>): Promise<void> {
+    // Spent before anything else is awaited, so the same token cannot be rotated twice
+    const record = await settings.store.consumeRefreshToken(hashToken(req.body.refreshToken), Date.now());
+    if (!record || record.expiresAt <= Date.now()) {
+        throw new UnauthorizedError("Invalid refresh token");
+    }
+    if (record.usedAt !== undefined) {
+        await settings.store.revokeFamily(record.familyId);
+        throw new UnauthorizedError("Refresh token was already used; please log in again");
+    }
+
+    const user = await findUserByRawId(String(record.userId));
+    if (!user) {
+        await settings.store.revokeFamily(record.familyId);
+        throw new UnauthorizedError("Invalid refresh token");
+    }
+    sendSuccess(res, 200, await issueTokens(user, record.familyId));
+}
+
+// Runs after requireAuth
+export async function logout(req: Request<{}, {}, LogoutInput>, res: Response): Promise<void> {
+    const auth = res.locals.auth;
+    if (!auth) throw new UnauthorizedError();
+
+    await settings.store.revokeAccessToken(auth.tokenId, auth.expiresAt);
+    const refreshToken: unknown = req.body?.refreshToken;
+    if (typeof refreshToken === "string") {
+        const record = await settings.store.findRefreshToken(hashToken(refreshToken));
+        // Only the owner may revoke a refresh token family
+        if (record && record.userId === auth.userId) {
+            await settings.store.revokeFamily(record.familyId);
+        }
+    }
+    res.status(204).send();
+}
+
+// The caller behind `auth` as of now: undefined once the token has expired or
+// been revoked, or the user was deleted. For responses that outlive the request check
+export async function currentPrincipal(auth: AuthContext): Promise<UserData | undefined> {
+    if (auth.expiresAt <= Date.now()) return undefined;
+    const user = await findUserByRawId(String(auth.userId));
+    if (!user || await settings.store.isAccessTokenRevoked(auth.tokenId)) return undefined;
+    return user;
+}
+
+/* MIDDLEWARE
+Guards a route: only requests with a valid, unrevoked access token
+for an existing user get through*/
+export async function requireAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+    const [scheme, token] = (req.get("Authorization") ?? "").split(" ");
+    if (scheme !== "Bearer" || !token) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="api"');
+        throw new UnauthorizedError();
+    }
+
+    const result = verifyJwt(token, settings.secret);
+    if (!result.valid || result.payload.typ !== "access") {
+        res.setHeader("WWW-Authenticate", 'Bearer error="invalid_token"');
+        throw new UnauthorizedError(result.valid ? "Invalid access token" : `Access token ${result.reason.replace("_", " ")}`);
+    }
+
+    const { sub, jti, exp } = result.payload;
+    const user = await findUserByRawId(sub);
+    if (!user || await settings.store.isAccessTokenRevoked(jti)) {
+        res.setHeader("WWW-Authenticate", 'Bearer error="invalid_token"');
+        throw new UnauthorizedError("Access token revoked");
+    }
+
+    res.locals.auth = { userId: user.id, user, tokenId: jti, expiresAt: exp * 1000 };
+    next();
+}
@@ -0,0 +1,149 @@
+import type { UserId } from './idGenerator.ts';
+import { JsonFile } from './jsonFile.ts';
+
+/* AUTH STORE CONTRACT
+Server-side state for tokens:
+- refresh tokens (only their SHA-256 hash is kept), grouped in families:
+  every rotation adds a token to the family of the one it replaces
+- revoked access-token ids, kept until the token would expire anyway*/
+export interface RefreshTokenRecord {
+    tokenHash: string;
+    userId: UserId;
+    familyId: string;
+    expiresAt: number;          // ms since epoch
+    usedAt?: number | undefined;  // set once the token has been rotated
+}
+
+export interface AuthStore {
+    saveRefreshToken(record: RefreshTokenRecord): Promise<void>;
+    findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | undefined>;
+    // Marks the token used and returns the record as it was before, in one
+    // step: of two concurrent refreshes, the second sees `usedAt` set
+    consumeRefreshToken(tokenHash: string, usedAt: number): Promise<RefreshTokenRecord | undefined>;
+    revokeFamily(familyId: string): Promise<void>;
+    revokeAccessToken(tokenId: string, expiresAt: number): Promise<void>;
+    isAccessTokenRevoked(tokenId: string): Promise<boolean>;
+}
+
+/* IN-MEMORY IMPLEMENTATION */
+export class InMemoryAuthStore implements AuthStore {
+    protected refreshTokens = new Map<string, RefreshTokenRecord>();
+    protected revokedAccessTokens = new Map<string, number>();
+
+    async saveRefreshToken(record: RefreshTokenRecord): Promise<void> {
+        this.prune();
+        this.refreshTokens.set(record.tokenHash, { ...record });
+        await this.persist();
+    }
+
+    async findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | undefined> {
+        const record = this.refreshTokens.get(tokenHash);
+        return record && { ...record };
+    }
+
+    async consumeRefreshToken(tokenHash: string, usedAt: number): Promise<RefreshTokenRecord | undefined> {
+        const record = this.refreshTokens.get(tokenHash);
+        if (!record) return undefined;
+        const before = { ...record };
+        record.usedAt ??= usedAt;
+        await this.persist();
+        return before;
+    }
+
+    async revokeFamily(familyId: string): Promise<void> {
+        for (const [hash, record] of this.refreshTokens) {
+            if (record.familyId === familyId) this.refreshTokens.delete(hash);
+        }
+        await this.persist();
+    }
+
+    async revokeAccessToken(tokenId: string, expiresAt: number): Promise<void> {
+        this.prune();
+        this.revokedAccessTokens.set(tokenId, expiresAt);
+        await this.persist();
+    }
+
+    async isAccessTokenRevoked(tokenId: string): Promise<boolean> {
+        return this.revokedAccessTokens.has(tokenId);
+    }
+
+    // Drops entries that have expired: they can no longer be used anyway
+    protected prune(now = Date.now()): void {
+        for (const [hash, record] of this.refreshTokens) {
+            if (record.expiresAt <= now) this.refreshTokens.delete(hash);
+        }
+        for (const [tokenId, expiresAt] of this.revokedAccessTokens) {
+            if (expiresAt <= now) this.revokedAccessTokens.delete(tokenId);
+        }
+    }
+
+    // Hook for subclasses that need to save after every write
+    protected async persist(): Promise<void> {}
+}
+
+/* JSON FILE IMPLEMENTATION
+Same approach as JsonFileUserRepository: memory cache + atomic rewrite*/
+interface AuthFileContents {
+    refreshTokens: RefreshTokenRecord[];
+    revokedAccessTokens: [string, number][];
+}
+
+export class JsonFileAuthStore extends InMemoryAuthStore {
+    private file: JsonFile<AuthFileContents>;
+    private loaded: Promise<void> | undefined;
+
+    constructor(filePath: string) {
+        super();
+        this.file = new JsonFile(filePath);
+    }
+
+    private load(): Promise<void> {
+        this.loaded ??= this.file.read().then(contents => {
+            if (!contents) return;
+            this.refreshTokens = new Map(contents.refreshTokens.map(r => [r.tokenHash, r]));
+            this.revokedAccessTokens = new Map(contents.revokedAccessTokens);
+        });
+        return this.loaded;
+    }
+
+    override async saveRefreshToken(record: RefreshTokenRecord): Promise<void> {
+        await this.load();
+        return super.saveRefreshToken(record);
+    }
+
+    override async findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | undefined> {
+        await this.load();
+        return super.findRefreshToken(tokenHash);
+    }
+
+    override async consumeRefreshToken(tokenHash: string, usedAt: number): Promise<RefreshTokenRecord | undefined> {
+        await this.load();
+        return super.consumeRefreshToken(tokenHash, usedAt);
+    }
+
+    override async revokeFamily(familyId: string): Promise<void> {
+        await this.load();
+        return super.revokeFamily(familyId);
+    }
+
+    override async revokeAccessToken(tokenId: string, expiresAt: number): Promise<void> {
+        await this.load();
+        return super.revokeAccessToken(tokenId, expiresAt);
+    }
+
+    override async isAccessTokenRevoked(tokenId: string): Promise<boolean> {
+        await this.load();
+        return super.isAccessTokenRevoked(tokenId);
+    }
+
+    protected override persist(): Promise<void> {
+        return this.file.write({
+            refreshTokens: [...this.refreshTokens.values()],
+            revokedAccessTokens: [...this.revokedAccessTokens]
+        });
+    }
+
+    flush(): Promise<void> {
+        return this.file.flush();
+    }
+}
@@ -0,0 +1,368 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { ID_MODES, type IdMode } from './idGenerator.ts';
+
+/* CONFIGURATION
+Everything server.js used to hard-code, resolved once at startup from
+(lowest to highest precedence):
+
+    1. DEFAULTS
+    2. the built-in profile (development, test, production)
+    3. the config file (config.json, CONFIG_FILE or --config), then its `profiles.<name>` section
+    4. environment variables (PORT, CORS_ORIGINS, ...)
+    5. CLI flags (npm start -- --port 4000 --log-level debug)
+
+Every source goes through the same parser, so "4000" from the env and
+4000 from the file end up as the same number, and all problems are
+reported together before the server starts*/
+export type Profile = "development" | "test" | "production";
+export type StorageBackend = "json" | "memory";
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+export const PROFILES: readonly Profile[] = ["development", "test", "production"];
+export const STORAGE_BACKENDS: readonly StorageBackend[] = ["json", "memory"];
+export const LOG_LEVELS: readonly LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+
+export interface AppConfig {
+    profile: Profile;
+    port: number;
+    host: string;
+    corsOrigins: string[];          // ["*"] = any origin, [] = no cross-origin requests
+    bodyLimit: string;              // express.json() limit, e.g. "100kb"
+    storage: StorageBackend;        // json = files under data/, memory = lost on restart
+    usersFile: string;
+    authFile: string;
+    idempotencyFile: string;
+    auditFile: string;              // JSON Lines, append-only
+    idMode: IdMode;
+    seedUsers: boolean;             // start an empty users store with the mock users (known password)
+    authSecret: string | undefined; // undefined = random per process
+    accessTokenTtl: number;         // seconds
+    refreshTokenTtl: number;        // seconds
+    idempotencyTtl: number;         // seconds an Idempotency-Key is remembered
+    logLevel: LogLevel;
+    healthMaxRssMb: number;             // readiness fails above this resident memory
+    healthMaxEventLoopLagMs: number;    // ... or above this p99 event-loop delay
+    shutdownTimeoutMs: number;          // how long in-flight requests may run after SIGTERM
+    rateLimitPerMinute: number;         // global limit per client IP, 0 = off (routes may add their own)
+    deletedRetentionDays: number;       // soft-deleted users are purged after this many days
+    purgeIntervalSeconds: number;       // how often the purge job runs
+    eventsReplaySize: number;           // user events kept for Last-Event-ID resumption
+    eventsHeartbeatSeconds: number;     // idle time before an event stream gets a heartbeat
+    importMaxBytes: string;             // largest CSV / NDJSON import body, e.g. "10mb"
+    importMaxRows: number;              // most rows in one import
+}
+
+type Settings = Omit<AppConfig, "profile">;
+
+export const DEFAULTS: Settings = {
+    port: 3000,
+    host: "0.0.0.0",
+    corsOrigins: ["*"],
+    bodyLimit: "100kb",
+    storage: "json",
+    usersFile: "./data/users.json",
+    authFile: "./data/auth.json",
+    idempotencyFile: "./data/idempotency.json",
+    auditFile: "./data/audit.jsonl",
+    idMode: "counter",
+    seedUsers: false,
+    authSecret: undefined,
+    accessTokenTtl: 15 * 60,
+    refreshTokenTtl: 7 * 24 * 60 * 60,
+    idempotencyTtl: 24 * 60 * 60,
+    logLevel: "info",
+    healthMaxRssMb: 512,
+    healthMaxEventLoopLagMs: 200,
+    shutdownTimeoutMs: 10_000,
+    rateLimitPerMinute: 300,
+    deletedRetentionDays: 30,
+    purgeIntervalSeconds: 60 * 60,
+    eventsReplaySize: 1000,
+    eventsHeartbeatSeconds: 15,
+    importMaxBytes: "10mb",
+    importMaxRows: 10_000
+};
+
+// Only what differs from DEFAULTS
+export const PROFILE_DEFAULTS: Record<Profile, Partial<Settings>> = {
+    development: { logLevel: "debug", seedUsers: true },
+    test: { storage: "memory", logLevel: "warn", rateLimitPerMinute: 0, seedUsers: true },
+    // Cross-origin access must be opted into explicitly
+    production: { corsOrigins: [] }
+};
+
+/* ERRORS */
+export class ConfigError extends Error {
+    readonly issues: string[];
+
+    constructor(issues: string[]) {
+        super(`Invalid configuration:\n${issues.map(issue => `  - ${issue}`).join("\n")}`);
+        this.name = "ConfigError";
+        this.issues = issues;
+    }
+}
+
+/* FIELDS
+One entry per setting: where it can come from and how a raw value
+(string from env/CLI, any JSON value from the file) is parsed*/
+type Parsed<T> = { ok: true; value: T } | { ok: false; message: string };
+
+interface FieldSpec<T> {
+    env: string;
+    flag?: string;                  // omitted for secrets, which would show up in `ps`
+    parse(raw: unknown): Parsed<T>;
+}
+
+const ok = <T>(value: T): Parsed<T> => ({ ok: true, value });
+const fail = <T>(message: string): Parsed<T> => ({ ok: false, message });
+
+function integer(min: number, max: number) {
+    return (raw: unknown): Parsed<number> => {
+        // Plain decimal digits only: Number() would also take "0x10", "1e3" or " 80 "
+        const value = typeof raw === "string" && /^-?\d+$/.test(raw) ? Number(raw) : raw;
+        return typeof value === "number" && Number.isInteger(value) && value >= min && value <= max
+            ? ok(value)
+            : fail(`must be an integer between ${min} and ${max}`);
+    };
+}
+
+// true / false, as JSON booleans in the file or as text in env/CLI
+function boolean(raw: unknown): Parsed<boolean> {
+    if (typeof raw === "boolean") return ok(raw);
+    if (raw === "true" || raw === "false") return ok(raw === "true");
+    return fail("must be true or false");
+}
+
+function oneOf<T extends string>(values: readonly T[]) {
+    return (raw: unknown): Parsed<T> => values.includes(raw as T)
+        ? ok(raw as T)
+        : fail(`must be one of: ${values.join(", ")}`);
+}
+
+function nonEmptyString(raw: unknown): Parsed<string> {
+    return typeof raw === "string" && raw.trim() !== "" ? ok(raw) : fail("must be a non-empty string");
+}
+
+// "100kb", "1mb", or a number of bytes, as understood by express.json()
+function byteSize(raw: unknown): Parsed<string> {
+    const value = typeof raw === "number" ? String(raw) : raw;
+    return typeof value === "string" && /^\d+\s*(b|kb|mb|gb)?$/i.test(value.trim())
+        ? ok(value.trim().toLowerCase())
+        : fail(`must be a size such as "100kb" or "1mb"`);
+}
+
+// A size accepted by byteSize() in bytes, for limits enforced outside express.json()
+const UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+export function toBytes(size: string): number {
+    const [, amount = "0", unit = "b"] = /^(\d+)\s*([a-z]*)$/.exec(size) ?? [];
+    return Number(amount) * (UNITS[unit || "b"] ?? 1);
+}
+
+// Array in the file, comma-separated list in env/CLI; each entry must be "*" or an exact origin
+function origins(raw: unknown): Parsed<string[]> {
+    const list = typeof raw === "string" ? raw.split(",").map(o => o.trim()).filter(o => o !== "") : raw;
+    if (!Array.isArray(list)) return fail("must be a list of origins");
+    for (const origin of list) {
+        if (origin === "*") continue;
+        try {
+            if (typeof origin === "string" && new URL(origin).origin === origin) continue;
+        } catch {
+            // fall through
+        }
+        return fail(`"${String(origin)}" is not an origin such as https://example.com (no path or trailing slash)`);
+    }
+    if (list.includes("*") && list.length > 1) return fail(`"*" cannot be combined with other origins`);
+    return ok(list as string[]);
+}
+
+const FIELDS: { [K in keyof Settings]-?: FieldSpec<Settings[K]> } = {
+    port: { env: "PORT", flag: "port", parse: integer(0, 65535) },
+    host: { env: "HOST", flag: "host", parse: nonEmptyString },
+    corsOrigins: { env: "CORS_ORIGINS", flag: "cors-origins", parse: origins },
+    bodyLimit: { env: "BODY_LIMIT", flag: "body-limit", parse: byteSize },
+    storage: { env: "STORAGE", flag: "storage", parse: oneOf(STORAGE_BACKENDS) },
+    usersFile: { env: "USERS_FILE", flag: "users-file", parse: nonEmptyString },
+    authFile: { env: "AUTH_FILE", flag: "auth-file", parse: nonEmptyString },
+    idempotencyFile: { env: "IDEMPOTENCY_FILE", flag: "idempotency-file", parse: nonEmptyString },
+    auditFile: { env: "AUDIT_FILE", flag: "audit-file", parse: nonEmptyString },
+    idMode: { env: "USER_ID_MODE", flag: "id-mode", parse: oneOf(ID_MODES) },
+    seedUsers: { env: "SEED_USERS", flag: "seed-users", parse: boolean },
+    authSecret: {
+        env: "AUTH_SECRET",
+        parse: raw => typeof raw === "string" && raw.length >= 16 ? ok(raw) : fail("must be at least 16 characters")
+    },
+    accessTokenTtl: { env: "ACCESS_TOKEN_TTL", flag: "access-token-ttl", parse: integer(1, 24 * 60 * 60) },
+    refreshTokenTtl: { env: "REFRESH_TOKEN_TTL", flag: "refresh-token-ttl", parse: integer(1, 365 * 24 * 60 * 60) },
+    idempotencyTtl: { env: "IDEMPOTENCY_TTL", flag: "idempotency-ttl", parse: integer(1, 30 * 24 * 60 * 60) },
+    logLevel: { env: "LOG_LEVEL", flag: "log-level", parse: oneOf(LOG_LEVELS) },
+    healthMaxRssMb: { env: "HEALTH_MAX_RSS_MB", flag: "health-max-rss-mb", parse: integer(16, 1024 * 1024) },
+    healthMaxEventLoopLagMs: { env: "HEALTH_MAX_EVENT_LOOP_LAG_MS", flag: "health-max-event-loop-lag-ms", parse: integer(1, 60_000) },
+    shutdownTimeoutMs: { env: "SHUTDOWN_TIMEOUT_MS", flag: "shutdown-timeout-ms", parse: integer(0, 10 * 60_000) },
+    rateLimitPerMinute: { env: "RATE_LIMIT_PER_MINUTE", flag: "rate-limit-per-minute", parse: integer(0, 1_000_000) },
+    deletedRetentionDays: { env: "DELETED_RETENTION_DAYS", flag: "deleted-retention-days", parse: integer(0, 10 * 365) },
+    purgeIntervalSeconds: { env: "PURGE_INTERVAL_SECONDS", flag: "purge-interval-seconds", parse: integer(1, 24 * 60 * 60) },
+    eventsReplaySize: { env: "EVENTS_REPLAY_SIZE", flag: "events-replay-size", parse: integer(0, 100_000) },
+    eventsHeartbeatSeconds: { env: "EVENTS_HEARTBEAT_SECONDS", flag: "events-heartbeat-seconds", parse: integer(1, 300) },
+    importMaxBytes: { env: "IMPORT_MAX_BYTES", flag: "import-max-bytes", parse: byteSize },
+    importMaxRows: { env: "IMPORT_MAX_ROWS", flag: "import-max-rows", parse: integer(1, 1_000_000) }
+};
+
+const FIELD_NAMES = Object.keys(FIELDS) as (keyof Settings)[];
+
+/* SOURCES
+Each source yields raw values keyed by setting, plus where they came
+from so error messages can point at the right place*/
+interface RawSource {
+    label: (key: keyof Settings) => string;
+    values: Partial<Record<keyof Settings, unknown>>;
+}
+
+function parseCli(argv: string[], issues: string[]): { configFile?: string; profile?: string; source: RawSource } {
+    const options: Record<string, { type: "string" }> = { config: { type: "string" }, profile: { type: "string" } };
+    for (const key of FIELD_NAMES) {
+        const flag = FIELDS[key].flag;
+        if (flag) options[flag] = { type: "string" };
+    }
+
+    let parsed: Record<string, string | boolean | undefined> = {};
+    try {
+        parsed = parseArgs({ args: argv, options, strict: true, allowPositionals: false }).values;
+    } catch (err) {
+        issues.push((err as Error).message);
+    }
+
+    const values: RawSource["values"] = {};
+    for (const key of FIELD_NAMES) {
+        const flag = FIELDS[key].flag;
+        if (flag && parsed[flag] !== undefined) values[key] = parsed[flag];
+    }
+    const result: { configFile?: string; profile?: string; source: RawSource } = {
+        source: { label: key => `--${FIELDS[key].flag}`, values }
+    };
+    if (typeof parsed.config === "string") result.configFile = parsed.config;
+    if (typeof parsed.profile === "string") result.profile = parsed.profile;
+    return result;
+}
+
+function envSource(env: NodeJS.ProcessEnv): RawSource {
+    const values: RawSource["values"] = {};
+    for (const key of FIELD_NAMES) {
+        const value = env[FIELDS[key].env];
+        if (value !== undefined && value !== "") values[key] = value;
+    }
+    return { label: key => FIELDS[key].env, values };
+}
+
+interface ConfigFile {
+    values: Partial<Record<keyof Settings, unknown>>;
+    profiles: Partial<Record<Profile, Partial<Record<keyof Settings, unknown>>>>;
+}
+
+function readConfigFile(path: string, required: boolean, issues: string[]): ConfigFile | undefined {
+    if (!existsSync(path)) {
+        if (required) issues.push(`Config file ${path} does not exist`);
+        return undefined;
+    }
+
+    let json: unknown;
+    try {
+        json = JSON.parse(readFileSync(path, "utf8"));
+    } catch (err) {
+        issues.push(`Config file ${path} is not valid JSON: ${(err as Error).message}`);
+        return undefined;
+    }
+    if (typeof json !== "object" || json === null || Array.isArray(json)) {
+        issues.push(`Config file ${path} must contain a JSON object`);
+        return undefined;
+    }
+
+    const { profiles = {}, ...values } = json as Record<string, unknown>;
+    const known = (object: Record<string, unknown>, where: string) => {
+        for (const key of Object.keys(object)) {
+            if (!Object.hasOwn(FIELDS, key)) issues.push(`${where}: unknown setting "${key}"`);
+        }
+        return object as ConfigFile["values"];
+    };
+
+    const file: ConfigFile = { values: known(values, path), profiles: {} };
+    if (typeof profiles !== "object" || profiles === null) {
+        issues.push(`${path}: "profiles" must be an object`);
+        return file;
+    }
+    for (const [name, section] of Object.entries(profiles)) {
+        if (!PROFILES.includes(name as Profile)) {
+            issues.push(`${path}: unknown profile "${name}" (expected ${PROFILES.join(", ")})`);
+        } else if (typeof section === "object" && section !== null) {
+            file.profiles[name as Profile] = known(section as Record<string, unknown>, `${path} profiles.${name}`);
+        }
+    }
+    return file;
+}
+
+/* LOADING */
+export interface LoadConfigOptions {
+    argv?: string[];                // without node and the script, e.g. process.argv.slice(2)
+    env?: NodeJS.ProcessEnv;
+    defaultConfigFile?: string;     // read when it exists; --config / CONFIG_FILE must exist
+}
+
+export function loadConfig(options: LoadConfigOptions = {}): Readonly<AppConfig> {
+    const env = options.env ?? process.env;
+    const issues: string[] = [];
+
+    const cli = parseCli(options.argv ?? process.argv.slice(2), issues);
+
+    const profileName = cli.profile ?? env.APP_PROFILE ?? env.NODE_ENV ?? "development";
+    const profile: Profile = PROFILES.includes(profileName as Profile) ? profileName as Profile : "development";
+    if (profile !== profileName) {
+        issues.push(`Profile "${profileName}" must be one of: ${PROFILES.join(", ")}`);
+    }
+
+    const explicitFile = cli.configFile ?? env.CONFIG_FILE;
+    const filePath = explicitFile ?? options.defaultConfigFile ?? "./config.json";
+    const file = readConfigFile(filePath, explicitFile !== undefined, issues);
+
+    const sources: RawSource[] = [];
+    if (file) {
+        sources.push({ label: key => `${filePath} ${key}`, values: file.values });
+        sources.push({ label: key => `${filePath} profiles.${profile}.${key}`, values: file.profiles[profile] ?? {} });
+    }
+    sources.push(envSource(env), cli.source);
+
+    const settings: Settings = { ...DEFAULTS, ...PROFILE_DEFAULTS[profile] };
+    for (const source of sources) {
+        for (const key of FIELD_NAMES) {
+            if (!Object.hasOwn(source.values, key)) continue;
+            const result = FIELDS[key].parse(source.values[key]);
+            if (result.ok) (settings as Record<keyof Settings, unknown>)[key] = result.value;
+            else issues.push(`${source.label(key)} ${result.message}`);
+        }
+    }
+
+    // Cross-field rules
+    if (profile === "production") {
+        if (settings.authSecret === undefined) {
+            issues.push("AUTH_SECRET is required in production (tokens must survive restarts)");
+        }
+        if (settings.corsOrigins.includes("*")) {
+            issues.push("corsOrigins cannot be \"*\" in production; list the allowed origins");
+        }
+        if (settings.seedUsers) {
+            issues.push("seedUsers cannot be on in production (the mock users share a known password)");
+        }
+    }
+    const files = [settings.usersFile, settings.authFile, settings.idempotencyFile, settings.auditFile];
+    if (settings.storage === "json" && new Set(files).size < files.length) {
+        issues.push("usersFile, authFile, idempotencyFile and auditFile must be different files");
+    }
+
+    if (issues.length > 0) throw new ConfigError(issues);
+    return Object.freeze({ profile, ...settings, corsOrigins: Object.freeze([...settings.corsOrigins]) as string[] });
+}
+
+// Safe to log: the secret is masked
+export function describeConfig(config: AppConfig): Record<string, unknown> {
+    return { ...config, authSecret: config.authSecret === undefined ? undefined : "********" };
+}
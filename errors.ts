@@ -0,0 +1,162 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { ValidationIssue } from './validation.ts';
+import { responseMeta, type ErrorResponse, type ResponseMeta } from './apiResponse.ts';
+import type { PolicyDenial } from './policy.ts';
+import type { ReadinessReport } from './health.ts';
+import { logger } from './logger.ts';
+
+/* ERROR HIERARCHY
+Handlers throw these; errorHandler() turns them into an ErrorResponse
+(the error variant of ApiResponse<T> in apiResponse.ts).
+Express 5 forwards errors thrown by async handlers automatically*/
+export class HttpError extends Error {
+    readonly status: number;
+    readonly code: string;
+
+    constructor(status: number, code: string, message: string) {
+        super(message);
+        this.name = new.target.name;
+        this.status = status;
+        this.code = code;
+    }
+
+    toResponse(meta: ResponseMeta): ErrorResponse {
+        return { status: "error", error: this.message, code: this.code, meta };
+    }
+}
+
+export class BadRequestError extends HttpError {
+    constructor(message = "Bad request", code = "bad_request") {
+        super(400, code, message);
+    }
+}
+
+export class ValidationError extends HttpError {
+    readonly details: ValidationIssue[];
+
+    constructor(details: ValidationIssue[], message = "Validation failed") {
+        super(400, "validation_failed", message);
+        this.details = details;
+    }
+
+    override toResponse(meta: ResponseMeta): ErrorResponse {
+        return { ...super.toResponse(meta), details: this.details };
+    }
+}
+
+export class UnauthorizedError extends HttpError {
+    constructor(message = "Authentication required") {
+        super(401, "unauthorized", message);
+    }
+}
+
+export class ForbiddenError extends HttpError {
+    readonly denial: PolicyDenial | undefined;
+
+    constructor(message = "Forbidden", denial?: PolicyDenial) {
+        super(403, "forbidden", message);
+        this.denial = denial;
+    }
+
+    override toResponse(meta: ResponseMeta): ErrorResponse {
+        const body = super.toResponse(meta);
+        return this.denial ? { ...body, policy: this.denial } : body;
+    }
+}
+
+export class NotFoundError extends HttpError {
+    constructor(message = "Not found") {
+        super(404, "not_found", message);
+    }
+}
+
+export class ConflictError extends HttpError {
+    constructor(message = "Conflict", code = "conflict") {
+        super(409, code, message);
+    }
+}
+
+export class PreconditionFailedError extends HttpError {
+    constructor(message = "Precondition failed") {
+        super(412, "precondition_failed", message);
+    }
+}
+
+// Same code as the 413 express.json() raises past bodyLimit
+export class PayloadTooLargeError extends HttpError {
+    constructor(message = "Payload too large") {
+        super(413, "entity_too_large", message);
+    }
+}
+
+export class UnsupportedMediaTypeError extends HttpError {
+    constructor(message = "Unsupported media type") {
+        super(415, "unsupported_media_type", message);
+    }
+}
+
+export class UnprocessableEntityError extends HttpError {
+    constructor(message = "Unprocessable entity", code = "unprocessable_entity") {
+        super(422, code, message);
+    }
+}
+
+export class TooManyRequestsError extends HttpError {
+    constructor(message = "Too many requests") {
+        super(429, "rate_limited", message);
+    }
+}
+
+export class ServiceUnavailableError extends HttpError {
+    readonly report: ReadinessReport | undefined;
+
+    constructor(message = "Service unavailable", report?: ReadinessReport) {
+        super(503, "service_unavailable", message);
+        this.report = report;
+    }
+
+    override toResponse(meta: ResponseMeta): ErrorResponse {
+        const body = super.toResponse(meta);
+        return this.report ? { ...body, health: this.report } : body;
+    }
+}
+
+/* MIDDLEWARE */
+
+// Registered after every route: anything reaching it matched no route
+export function notFoundHandler(req: Request, res: Response, next: NextFunction): void {
+    next(new NotFoundError(`Route ${req.method} ${req.path} not found`));
+}
+
+// Errors raised by Express itself (e.g. body-parser) carry a `status` and `expose`
+interface ExpressError {
+    status?: number;
+    expose?: boolean;
+    type?: string;
+    message?: string;
+}
+
+function toHttpError(err: unknown): HttpError {
+    if (err instanceof HttpError) return err;
+    const e = (typeof err === "object" && err !== null ? err : {}) as ExpressError;
+    if (e.expose && e.status !== undefined && e.status >= 400 && e.status < 500) {
+        const code = e.type?.replace(/\./g, "_") ?? "bad_request";
+        return new HttpError(e.status, code, e.message ?? "Bad request");
+    }
+    return new HttpError(500, "internal_error", "Internal server error");
+}
+
+// Must keep all 4 parameters: that is how Express recognizes an error handler
+export function errorHandler(err: unknown, req: Request, res: Response, next: NextFunction): void {
+    if (res.headersSent) {
+        next(err);
+        return;
+    }
+    const httpError = toHttpError(err);
+    res.locals.errorCode = httpError.code;
+    // Deliberate 5xx (e.g. 503 from readiness) are already covered by the request log
+    if (httpError.status >= 500 && !(err instanceof HttpError)) {
+        (res.locals.log ?? logger).error("unhandled error", { err });
+    }
+    res.status(httpError.status).json(httpError.toResponse(responseMeta(res)));
+}
@@ -0,0 +1,43 @@
+import { createHash } from 'node:crypto';
+import type { Request } from 'express';
+import { PreconditionFailedError } from './errors.ts';
+
+/* ETAGS
+Strong ETags computed from the stored data, so the same resource
+always gets the same tag whatever request id or response metadata
+surrounds it.
+
+Reads: handlers set the ETag header and Express answers 304 on its own
+when If-None-Match matches (res.send checks req.fresh).
+Writes: If-Match is checked against the stored version right before
+the write (see Precondition in userRepository.ts), 412 on mismatch*/
+
+// JSON with sorted keys, so {"a":1,"b":2} and {"b":2,"a":1} are the same payload
+export function canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+    if (typeof value === "object" && value !== null) {
+        const entries = Object.entries(value)
+            .filter(([, v]) => v !== undefined)
+            .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+        return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+    }
+    return JSON.stringify(value) ?? "null";
+}
+
+export function strongEtag(value: unknown): string {
+    return `"${createHash("sha256").update(canonicalJson(value)).digest("base64url").slice(0, 27)}"`;
+}
+
+// Strong comparison (RFC 9110 §13.1.1): weak tags never match
+function ifMatchAllows(header: string, etag: string): boolean {
+    if (header.trim() === "*") return true;
+    return header.split(",").map(tag => tag.trim()).includes(etag);
+}
+
+// No If-Match header = unconditional write
+export function assertIfMatch(req: Request, etag: string): void {
+    const header = req.get("If-Match");
+    if (header !== undefined && !ifMatchAllows(header, etag)) {
+        throw new PreconditionFailedError("The resource was modified since it was read (If-Match does not match)");
+    }
+}
@@ -0,0 +1,23 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { openApiDocument } from './routes.ts';
+
+/* OPENAPI FILE
+    npm run openapi          regenerate openapi.json from routes.ts
+    npm run openapi:check    fail when openapi.json no longer matches routes.ts
+The check is what catches a route or schema change that was not
+re-documented (type drift inside handlers is caught by tsc itself)*/
+const OUTPUT = new URL('./openapi.json', import.meta.url);
+const expected = JSON.stringify(openApiDocument, null, 2) + '\n';
+
+if (process.argv.includes('--check')) {
+    const current = await readFile(OUTPUT, 'utf8').catch(() => '');
+    if (current !== expected) {
+        console.error('❌ openapi.json is out of date, run: npm run openapi');
+        process.exitCode = 1;
+    } else {
+        console.log('✅ openapi.json matches the route definitions');
+    }
+} else {
+    await writeFile(OUTPUT, expected, 'utf8');
+    console.log('✅ openapi.json written');
+}
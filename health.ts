@@ -0,0 +1,163 @@
+import type { Request, Response } from 'express';
+import { monitorEventLoopDelay } from 'node:perf_hooks';
+import type { Schema } from './validation.ts';
+import { sendSuccess, type ApiResponse } from './apiResponse.ts';
+import { ServiceUnavailableError } from './errors.ts';
+import { JsonFile } from './jsonFile.ts';
+
+/* LIFECYCLE
+starting → ready → draining. server.js flips it to "ready" once the
+stores are loaded and to "draining" on shutdown; readiness fails in
+every state but "ready", so load balancers stop sending traffic*/
+export type Lifecycle = "starting" | "ready" | "draining";
+
+let lifecycle: Lifecycle = "starting";
+
+export function setLifecycle(state: Lifecycle): void {
+    lifecycle = state;
+}
+
+export function getLifecycle(): Lifecycle {
+    return lifecycle;
+}
+
+/* CHECKS
+A check resolves when healthy (optionally with a short detail such as
+"rss 80 MB") and throws when not. Checks run in parallel on every
+readiness probe, each with its own timeout*/
+export type HealthCheck = () => Promise<string | void>;
+
+export interface HealthCheckResult {
+    name: string;
+    status: "pass" | "fail";
+    durationMs: number;
+    message?: string;
+}
+
+export const healthCheckResultSchema: Schema<HealthCheckResult> = {
+    name: { type: "string" },
+    status: { type: "string", enum: ["pass", "fail"] },
+    durationMs: { type: "number" },
+    message: { type: "string", optional: true }
+};
+
+const CHECK_TIMEOUT_MS = 2_000;
+const checks = new Map<string, HealthCheck>();
+
+export function registerHealthCheck(name: string, check: HealthCheck): void {
+    checks.set(name, check);
+}
+
+async function runCheck(name: string, check: HealthCheck): Promise<HealthCheckResult> {
+    const start = performance.now();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS} ms`)), CHECK_TIMEOUT_MS);
+    });
+    try {
+        const detail = await Promise.race([check(), timeout]);
+        const result: HealthCheckResult = { name, status: "pass", durationMs: elapsed(start) };
+        if (detail) result.message = detail;
+        return result;
+    } catch (err) {
+        return { name, status: "fail", durationMs: elapsed(start), message: (err as Error).message };
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+function elapsed(start: number): number {
+    return Math.round((performance.now() - start) * 100) / 100;
+}
+
+export function runHealthChecks(): Promise<HealthCheckResult[]> {
+    return Promise.all([...checks].map(([name, check]) => runCheck(name, check)));
+}
+
+/* BUILT-IN CHECKS */
+
+// The store answers a read (catches a corrupt users file)
+export function storeCheck(count: () => Promise<number>): HealthCheck {
+    return async () => `${await count()} users`;
+}
+
+// A file can still be written next to each JSON store (disk full, permissions...)
+export function writableCheck(filePaths: string[]): HealthCheck {
+    const files = filePaths.map(path => new JsonFile(path));
+    return async () => {
+        await Promise.all(files.map(file => file.checkWritable()));
+    };
+}
+
+export function memoryCheck(maxRssMb: number): HealthCheck {
+    return async () => {
+        const rssMb = Math.round(process.memoryUsage.rss() / 1024 / 1024);
+        if (rssMb > maxRssMb) throw new Error(`rss ${rssMb} MB is over ${maxRssMb} MB`);
+        return `rss ${rssMb} MB`;
+    };
+}
+
+// p99 event-loop delay since the previous probe
+export function eventLoopLagCheck(maxLagMs: number): HealthCheck {
+    const histogram = monitorEventLoopDelay({ resolution: 20 });
+    histogram.enable();
+    return async () => {
+        const lagMs = Math.round(histogram.percentile(99) / 1e6);
+        histogram.reset();
+        if (lagMs > maxLagMs) throw new Error(`event loop lag ${lagMs} ms is over ${maxLagMs} ms`);
+        return `lag p99 ${lagMs} ms`;
+    };
+}
+
+/* ENDPOINTS
+/health/live: the process is up and serving (restart it if this fails)
+/health/ready: it should receive traffic; 503 while starting, draining
+or when a check fails. /health answers like /health/ready*/
+export interface LivenessStatus {
+    status: "alive";
+    uptime: number;       // seconds since the process started
+    timestamp: string;    // ISO 8601
+}
+
+export const livenessStatusSchema: Schema<LivenessStatus> = {
+    status: { type: "string", enum: ["alive"] },
+    uptime: { type: "number" },
+    timestamp: { type: "string" }
+};
+
+export interface ReadinessReport {
+    status: "ready" | "starting" | "draining" | "failing";
+    uptime: number;
+    timestamp: string;
+    checks: HealthCheckResult[];
+}
+
+export const readinessReportSchema: Schema<ReadinessReport> = {
+    status: { type: "string", enum: ["ready", "starting", "draining", "failing"] },
+    uptime: { type: "number" },
+    timestamp: { type: "string" },
+    checks: { type: "array", items: { type: "object", fields: healthCheckResultSchema } }
+};
+
+export function getLiveness(req: Request, res: Response<ApiResponse<LivenessStatus>>): void {
+    sendSuccess(res, 200, {
+        status: "alive",
+        uptime: process.uptime(),
+        timestamp: new Date().toISOString()
+    });
+}
+
+export async function getReadiness(req: Request, res: Response<ApiResponse<ReadinessReport>>): Promise<void> {
+    const results = await runHealthChecks();
+    const failing = results.some(result => result.status === "fail");
+    const report: ReadinessReport = {
+        status: lifecycle !== "ready" ? lifecycle : failing ? "failing" : "ready",
+        uptime: process.uptime(),
+        timestamp: new Date().toISOString(),
+        checks: results
+    };
+    if (report.status !== "ready") {
+        throw new ServiceUnavailableError(`Not ready: ${report.status}`, report);
+    }
+    sendSuccess(res, 200, report);
+}
@@ -0,0 +1,134 @@
+import { randomUUID, randomBytes } from 'node:crypto';
+
+/* ID FORMATS
+- counter: 1, 2, 3... (never reused, the last value is saved with the store)
+- uuid:    random RFC 4122 v4 string
+- ulid:    26-char, time-ordered, Crockford base32 string*/
+export type IdMode = "counter" | "uuid" | "ulid";
+
+export type UserId = number | string;
+
+export const ID_MODES: readonly IdMode[] = ["counter", "uuid", "ulid"];
+
+export interface IdGenerator {
+    readonly mode: IdMode;
+    next(): UserId;
+    // Turns a route param into an id; undefined means the string is malformed
+    parse(raw: string): UserId | undefined;
+    // Counter bookkeeping so the store can persist it (no-ops for random ids)
+    lastIssued(): number | undefined;
+    advanceTo(id: UserId): void;
+}
+
+/* COUNTER */
+export class CounterIdGenerator implements IdGenerator {
+    readonly mode = "counter";
+    private lastId = 0;
+
+    next(): number {
+        this.lastId += 1;
+        return this.lastId;
+    }
+
+    parse(raw: string): number | undefined {
+        if (!/^[1-9]\d*$/.test(raw)) return undefined;
+        const id = Number(raw);
+        return Number.isSafeInteger(id) ? id : undefined;
+    }
+
+    lastIssued(): number {
+        return this.lastId;
+    }
+
+    // Only moves forward, so a deleted id is never handed out again
+    advanceTo(id: UserId): void {
+        if (typeof id === "number" && id > this.lastId) {
+            this.lastId = id;
+        }
+    }
+}
+
+/* UUID */
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-8][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export class UuidIdGenerator implements IdGenerator {
+    readonly mode = "uuid";
+
+    next(): string {
+        return randomUUID();
+    }
+
+    parse(raw: string): string | undefined {
+        return UUID_PATTERN.test(raw) ? raw.toLowerCase() : undefined;
+    }
+
+    lastIssued(): undefined {
+        return undefined;
+    }
+
+    advanceTo(): void {}
+}
+
+/* ULID
+48-bit millisecond timestamp + 80 bits of randomness. Ids created in the
+same millisecond increment the random part, so they still sort in order*/
+const CROCKFORD = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const ULID_PATTERN = /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i;
+
+export class UlidIdGenerator implements IdGenerator {
+    readonly mode = "ulid";
+    private lastTime = -1;
+    private lastRandom: number[] = [];
+
+    next(): string {
+        const now = Date.now();
+        if (now === this.lastTime) {
+            this.incrementRandom();
+        } else {
+            this.lastTime = now;
+            this.lastRandom = Array.from(randomBytes(16), byte => byte % 32);
+        }
+        return this.encodeTime(this.lastTime) + this.lastRandom.map(d => CROCKFORD[d]).join("");
+    }
+
+    parse(raw: string): string | undefined {
+        return ULID_PATTERN.test(raw) ? raw.toUpperCase() : undefined;
+    }
+
+    lastIssued(): undefined {
+        return undefined;
+    }
+
+    advanceTo(): void {}
+
+    private encodeTime(time: number): string {
+        let out = "";
+        for (let i = 0; i < 10; i++) {
+            out = CROCKFORD[time % 32] + out;
+            time = Math.floor(time / 32);
+        }
+        return out;
+    }
+
+    // Adds 1 to the base32 digits, carrying from the right
+    private incrementRandom(): void {
+        for (let i = this.lastRandom.length - 1; i >= 0; i--) {
+            const digit = (this.lastRandom[i] ?? 0) + 1;
+            this.lastRandom[i] = digit % 32;
+            if (digit < 32) return;
+        }
+        throw new Error("ULID random component overflowed within one millisecond");
+    }
+}
+
+/* FACTORY */
+export function createIdGenerator(mode: IdMode = "counter"): IdGenerator {
+    switch (mode) {
+        case "uuid":
+            return new UuidIdGenerator();
+        case "ulid":
+            return new UlidIdGenerator();
+        default:
+            return new CounterIdGenerator();
+    }
+}
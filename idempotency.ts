@@ -0,0 +1,224 @@
+import { createHash } from 'node:crypto';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { JsonFile } from './jsonFile.ts';
+import { BadRequestError, ConflictError, UnprocessableEntityError } from './errors.ts';
+import { canonicalJson } from './etag.ts';
+import type { ApiResponse } from './apiResponse.ts';
+
+/* IDEMPOTENCY KEYS
+A client that retries a POST sends the same `Idempotency-Key` header
+every time; only the first request runs, the others get its response
+back (with `Idempotent-Replayed: true`):
+
+- same key, same body, first one finished   → stored response replayed
+- same key, same body, first one still running → 409, retry shortly
+- same key, different body                   → 422
+Keys are scoped to the caller (user id, else IP), the route and its
+query string (?atomic=true changes what a batch does), and kept for
+`ttlSeconds`. 5xx and 429 responses are not stored, so the
+request can be retried for real*/
+export interface StoredResponse {
+    statusCode: number;
+    headers: Record<string, string>;    // the ones in REPLAYED_HEADERS the handler set
+    body: ApiResponse<unknown>;
+}
+
+export interface IdempotencyRecord {
+    key: string;
+    fingerprint: string;            // hash of method + path + query + body
+    expiresAt: number;              // ms since epoch
+    response?: StoredResponse | undefined;  // undefined while the first request is running
+}
+
+/* STORE CONTRACT */
+export interface IdempotencyStore {
+    // Atomically claims `record.key`; resolves the existing record when it is already taken
+    claim(record: IdempotencyRecord): Promise<IdempotencyRecord | undefined>;
+    complete(key: string, response: StoredResponse): Promise<void>;
+    // Frees the key so the request can be retried (failed or aborted)
+    release(key: string): Promise<void>;
+}
+
+/* IN-MEMORY IMPLEMENTATION
+claim() checks and sets before its first await, so two concurrent
+requests with the same key can never both win*/
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+    protected records = new Map<string, IdempotencyRecord>();
+
+    async claim(record: IdempotencyRecord): Promise<IdempotencyRecord | undefined> {
+        this.prune();
+        const existing = this.records.get(record.key);
+        if (existing) return { ...existing };
+        this.records.set(record.key, { ...record, response: undefined });
+        return undefined;
+    }
+
+    async complete(key: string, response: StoredResponse): Promise<void> {
+        const record = this.records.get(key);
+        if (!record) return;
+        record.response = response;
+        await this.persist();
+    }
+
+    async release(key: string): Promise<void> {
+        this.records.delete(key);
+    }
+
+    protected prune(now = Date.now()): void {
+        for (const [key, record] of this.records) {
+            if (record.expiresAt <= now) this.records.delete(key);
+        }
+    }
+
+    // Hook for subclasses that need to save after every write
+    protected async persist(): Promise<void> {}
+}
+
+/* JSON FILE IMPLEMENTATION
+Only completed records are saved: a request cut short by a crash must
+not leave its key stuck "in progress" after the restart*/
+interface IdempotencyFileContents {
+    records: IdempotencyRecord[];
+}
+
+export class JsonFileIdempotencyStore extends InMemoryIdempotencyStore {
+    private file: JsonFile<IdempotencyFileContents>;
+    private loaded: Promise<void> | undefined;
+
+    constructor(filePath: string) {
+        super();
+        this.file = new JsonFile(filePath);
+    }
+
+    private load(): Promise<void> {
+        this.loaded ??= this.file.read().then(contents => {
+            if (!contents) return;
+            this.records = new Map(contents.records.map(r => [r.key, r]));
+        });
+        return this.loaded;
+    }
+
+    override async claim(record: IdempotencyRecord): Promise<IdempotencyRecord | undefined> {
+        await this.load();
+        return super.claim(record);
+    }
+
+    override async complete(key: string, response: StoredResponse): Promise<void> {
+        await this.load();
+        return super.complete(key, response);
+    }
+
+    override async release(key: string): Promise<void> {
+        await this.load();
+        return super.release(key);
+    }
+
+    protected override persist(): Promise<void> {
+        return this.file.write({ records: [...this.records.values()].filter(r => r.response !== undefined) });
+    }
+
+    flush(): Promise<void> {
+        return this.file.flush();
+    }
+}
+
+/* SETTINGS */
+interface IdempotencySettings {
+    store: IdempotencyStore;
+    ttlSeconds: number;
+}
+
+let settings: IdempotencySettings = {
+    store: new InMemoryIdempotencyStore(),
+    ttlSeconds: 24 * 60 * 60
+};
+
+export function configureIdempotency(options: { [K in keyof IdempotencySettings]?: IdempotencySettings[K] | undefined }): void {
+    settings = {
+        store: options.store ?? settings.store,
+        ttlSeconds: options.ttlSeconds ?? settings.ttlSeconds
+    };
+}
+
+/* MIDDLEWARE */
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;  // printable ASCII, no spaces
+
+// Sent again with a replay: without its ETag, Express would tag the replayed body with a weak one of its own
+const REPLAYED_HEADERS = ["ETag", "Location"];
+
+function replayedHeaders(res: Response): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const name of REPLAYED_HEADERS) {
+        const value = res.getHeader(name);
+        if (value !== undefined) headers[name] = String(value);
+    }
+    return headers;
+}
+
+// The path and its query, parameters sorted so their order does not matter
+function target(req: Request): string {
+    const query = new URL(req.originalUrl, "http://localhost").searchParams;
+    query.sort();
+    const search = query.toString();
+    return `${req.baseUrl}${req.path}${search === "" ? "" : `?${search}`}`;
+}
+
+function fingerprint(req: Request): string {
+    return createHash("sha256").update(`${req.method} ${target(req)}\n${canonicalJson(req.body)}`).digest("hex");
+}
+
+// Requests without the header go through untouched: the key is opt-in
+export const idempotent: RequestHandler = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const header = req.get("Idempotency-Key");
+    if (header === undefined) {
+        next();
+        return;
+    }
+    if (!KEY_PATTERN.test(header)) {
+        throw new BadRequestError("Idempotency-Key must be 1-255 printable ASCII characters", "invalid_idempotency_key");
+    }
+
+    const caller = res.locals.auth?.userId !== undefined ? `user:${res.locals.auth.userId}` : `ip:${req.ip}`;
+    const key = `${caller}:${req.method}:${target(req)}:${header}`;
+    const record: IdempotencyRecord = {
+        key,
+        fingerprint: fingerprint(req),
+        expiresAt: Date.now() + settings.ttlSeconds * 1000
+    };
+
+    const existing = await settings.store.claim(record);
+    if (existing) {
+        if (existing.fingerprint !== record.fingerprint) {
+            throw new UnprocessableEntityError(
+                "Idempotency-Key was already used with a different request body",
+                "idempotency_key_reused"
+            );
+        }
+        if (!existing.response) {
+            res.setHeader("Retry-After", 1);
+            throw new ConflictError("A request with this Idempotency-Key is still being processed", "idempotency_in_progress");
+        }
+        res.setHeader("Idempotent-Replayed", "true");
+        res.set(existing.response.headers);
+        res.status(existing.response.statusCode).json(existing.response.body);
+        return;
+    }
+
+    // Keep what the handler sends, then store it (or free the key) once the response is over
+    let body: ApiResponse<unknown> | undefined;
+    let headers: Record<string, string> = {};
+    const json = res.json.bind(res);
+    res.json = (payload: ApiResponse<unknown>) => {
+        body = payload;
+        headers = replayedHeaders(res);
+        return json(payload);
+    };
+    res.on("close", () => {
+        const storable = res.statusCode < 500 && res.statusCode !== 429;
+        const settled = body !== undefined && storable
+            ? settings.store.complete(key, { statusCode: res.statusCode, headers, body })
+            : settings.store.release(key);
+        settled.catch(err => res.locals.log?.error("idempotency store failed", { err }));
+    });
+    next();
+};
@@ -0,0 +1,53 @@
+import { readFile, writeFile, rename, mkdir, unlink } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+/* ATOMIC JSON FILE
+Shared by the file-backed stores. Each write goes to a temp path and is
+then renamed over the target, so a crash mid-write never leaves a
+half-written file behind. Writes are chained so two callers never
+rename over each other*/
+export class JsonFile<T> {
+    readonly filePath: string;
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    // Resolves undefined when the file does not exist yet
+    async read(): Promise<T | undefined> {
+        try {
+            return JSON.parse(await readFile(this.filePath, 'utf8')) as T;
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+            throw err;
+        }
+    }
+
+    // Serializes immediately, so later changes to `contents` do not leak into this write
+    write(contents: T): Promise<void> {
+        const data = JSON.stringify(contents, null, 2);
+        const next = this.writing.then(async () => {
+            const tempPath = `${this.filePath}.${process.pid}.tmp`;
+            await mkdir(dirname(this.filePath), { recursive: true });
+            await writeFile(tempPath, data, 'utf8');
+            await rename(tempPath, this.filePath);
+        });
+        // A failed write must not block the ones queued after it
+        this.writing = next.catch(() => {});
+        return next;
+    }
+
+    // Resolves once every write queued so far has settled (used on shutdown)
+    flush(): Promise<void> {
+        return this.writing;
+    }
+
+    // Health check: can a file be created next to this one? (the directory may not exist yet)
+    async checkWritable(): Promise<void> {
+        const probePath = `${this.filePath}.${process.pid}.probe`;
+        await mkdir(dirname(this.filePath), { recursive: true });
+        await writeFile(probePath, '', 'utf8');
+        await unlink(probePath);
+    }
+}
@@ -0,0 +1,63 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/* JSON WEB TOKENS (HS256)
+A JWT is three base64url parts joined by dots:
+
+    header.payload.signature
+
+The signature is an HMAC-SHA256 of "header.payload" with a server secret,
+so any change to the payload invalidates it. Only Node's crypto is used*/
+export interface JwtPayload {
+    sub: string;    // subject: the user id
+    jti: string;    // token id, used for revocation
+    iat: number;    // issued at (seconds since epoch)
+    exp: number;    // expires at (seconds since epoch)
+    [claim: string]: unknown;
+}
+
+const HEADER = { alg: "HS256", typ: "JWT" };
+
+function encodePart(value: unknown): string {
+    return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function sign(data: string, secret: string): string {
+    return createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+export function signJwt(payload: JwtPayload, secret: string): string {
+    const unsigned = `${encodePart(HEADER)}.${encodePart(payload)}`;
+    return `${unsigned}.${sign(unsigned, secret)}`;
+}
+
+export type JwtResult =
+    | { valid: true; payload: JwtPayload }
+    | { valid: false; reason: "malformed" | "bad_signature" | "expired" };
+
+export function verifyJwt(token: string, secret: string, now = Date.now()): JwtResult {
+    const [header, payload, signature] = token.split(".");
+    if (header === undefined || payload === undefined || signature === undefined) {
+        return { valid: false, reason: "malformed" };
+    }
+
+    const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+        return { valid: false, reason: "bad_signature" };
+    }
+
+    let decoded: JwtPayload;
+    try {
+        const parsedHeader = JSON.parse(Buffer.from(header, "base64url").toString("utf8")) as { alg?: unknown };
+        // Never trust a different algorithm than the one we sign with
+        if (parsedHeader.alg !== HEADER.alg) return { valid: false, reason: "malformed" };
+        decoded = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as JwtPayload;
+    } catch {
+        return { valid: false, reason: "malformed" };
+    }
+
+    if (typeof decoded.exp !== "number" || decoded.exp * 1000 <= now) {
+        return { valid: false, reason: "expired" };
+    }
+    return { valid: true, payload: decoded };
+}
@@ -0,0 +1,238 @@
+import type { ValidationIssue } from './validation.ts';
+
+/* LIST QUERY PARAMETERS
+Parses and applies the query string of collection routes:
+
+    ?page=2&limit=20               offset pagination
+    ?cursor=<nextCursor>&limit=20  cursor pagination (wins over page)
+    ?sort=age,-name                "-" means descending
+    ?age[gte]=25&email[contains]=example
+    ?name=Alice                    shorthand for name[eq]=Alice
+*/
+export type FieldKind = "string" | "number";
+
+// Fields that may be filtered and sorted on, with the type used to coerce query values
+export type ListFields = Record<string, FieldKind>;
+
+export type FilterOperator = "eq" | "ne" | "gt" | "gte" | "lt" | "lte" | "contains";
+
+const OPERATORS: readonly FilterOperator[] = ["eq", "ne", "gt", "gte", "lt", "lte", "contains"];
+
+// Operators that apply to a field of this kind ("contains" is for text only)
+export function filterOperators(kind: FieldKind): readonly FilterOperator[] {
+    return kind === "string" ? OPERATORS : OPERATORS.filter(op => op !== "contains");
+}
+
+export interface Filter {
+    field: string;
+    op: FilterOperator;
+    value: string | number;
+}
+
+export interface SortKey {
+    field: string;
+    direction: 1 | -1;
+}
+
+export interface ListQuery {
+    page: number;
+    limit: number;
+    // Sort key of the last item already seen (decoded from ?cursor)
+    cursor?: unknown[] | undefined;
+    sort: SortKey[];
+    filters: Filter[];
+}
+
+export interface ListPage<T> {
+    data: T[];
+    total: number;
+    nextCursor: string | null;
+}
+
+export type ParseResult =
+    | { ok: true; query: ListQuery }
+    | { ok: false; errors: ValidationIssue[] };
+
+export const DEFAULT_LIMIT = 20;
+export const MAX_LIMIT = 100;
+
+// Keys that are never treated as filters
+const RESERVED = new Set(["page", "limit", "cursor", "sort"]);
+
+/* CURSORS
+Opaque base64url string holding the sort values (plus id) of the last item*/
+export function encodeCursor(key: unknown[]): string {
+    return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeCursor(raw: string): unknown[] | undefined {
+    try {
+        const key: unknown = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+        return Array.isArray(key) ? key : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/* PARSING */
+function parsePositiveInt(raw: unknown): number | undefined {
+    if (typeof raw !== "string" || !/^[1-9]\d*$/.test(raw)) return undefined;
+    return Number(raw);
+}
+
+function coerce(raw: string, kind: FieldKind): string | number | undefined {
+    if (kind === "string") return raw;
+    const value = Number(raw);
+    return raw.trim() !== "" && Number.isFinite(value) ? value : undefined;
+}
+
+// Accepts both "age[gte]" keys (simple parser) and { age: { gte } } objects (extended parser)
+function collectFilterEntries(query: Record<string, unknown>): [string, string, unknown][] {
+    const entries: [string, string, unknown][] = [];
+    for (const [key, value] of Object.entries(query)) {
+        if (RESERVED.has(key)) continue;
+        const match = /^([^[\]]+)\[([^[\]]+)\]$/.exec(key);
+        if (match) {
+            entries.push([match[1] ?? key, match[2] ?? "", value]);
+        } else if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+            for (const [op, opValue] of Object.entries(value)) entries.push([key, op, opValue]);
+        } else {
+            entries.push([key, "eq", value]);
+        }
+    }
+    return entries;
+}
+
+export function parseListQuery(query: Record<string, unknown>, fields: ListFields): ParseResult {
+    const errors: ValidationIssue[] = [];
+    const result: ListQuery = { page: 1, limit: DEFAULT_LIMIT, sort: [], filters: [] };
+
+    if (query.page !== undefined) {
+        const page = parsePositiveInt(query.page);
+        if (page === undefined) errors.push({ field: "page", code: "invalid_type", message: "Expected a positive integer" });
+        else result.page = page;
+    }
+
+    if (query.limit !== undefined) {
+        const limit = parsePositiveInt(query.limit);
+        if (limit === undefined) errors.push({ field: "limit", code: "invalid_type", message: "Expected a positive integer" });
+        else if (limit > MAX_LIMIT) errors.push({ field: "limit", code: "too_large", message: `Must be at most ${MAX_LIMIT}` });
+        else result.limit = limit;
+    }
+
+    if (query.cursor !== undefined) {
+        const cursor = typeof query.cursor === "string" ? decodeCursor(query.cursor) : undefined;
+        if (cursor === undefined) errors.push({ field: "cursor", code: "invalid_format", message: "Malformed cursor" });
+        else result.cursor = cursor;
+    }
+
+    if (query.sort !== undefined) {
+        const parts = typeof query.sort === "string" ? query.sort.split(",") : [];
+        if (parts.length === 0) errors.push({ field: "sort", code: "invalid_type", message: "Expected a comma-separated list" });
+        for (const part of parts) {
+            const field = part.replace(/^[-+]/, "").trim();
+            if (field !== "id" && !Object.hasOwn(fields, field)) {
+                errors.push({ field: "sort", code: "unknown_field", message: `Cannot sort by "${field}"` });
+                continue;
+            }
+            result.sort.push({ field, direction: part.startsWith("-") ? -1 : 1 });
+        }
+    }
+
+    for (const [field, op, raw] of collectFilterEntries(query)) {
+        // Own keys only: "constructor" or "toString" are not fields
+        const kind = Object.hasOwn(fields, field) ? fields[field] : undefined;
+        const name = op === "eq" ? field : `${field}[${op}]`;
+        if (kind === undefined) {
+            errors.push({ field: name, code: "unknown_field", message: `Cannot filter by "${field}"` });
+            continue;
+        }
+        if (!filterOperators(kind).includes(op as FilterOperator)) {
+            errors.push({ field: name, code: "invalid_format", message: `Unsupported operator "${op}"` });
+            continue;
+        }
+        const value = typeof raw === "string" ? coerce(raw, kind) : undefined;
+        if (value === undefined) {
+            errors.push({ field: name, code: "invalid_type", message: `Expected ${kind}` });
+            continue;
+        }
+        result.filters.push({ field, op: op as FilterOperator, value });
+    }
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, query: result };
+}
+
+/* APPLYING */
+function compareValues(a: unknown, b: unknown): number {
+    if (typeof a === "number" && typeof b === "number") return a - b;
+    return String(a).localeCompare(String(b));
+}
+
+function matches(value: unknown, filter: Filter): boolean {
+    const order = compareValues(value, filter.value);
+    switch (filter.op) {
+        case "eq": return value === filter.value;
+        case "ne": return value !== filter.value;
+        case "gt": return order > 0;
+        case "gte": return order >= 0;
+        case "lt": return order < 0;
+        case "lte": return order <= 0;
+        case "contains":
+            return String(value).toLowerCase().includes(String(filter.value).toLowerCase());
+    }
+}
+
+// The id is always the last sort key, so every item has a unique position for cursors
+function sortKeyOf<T extends { id: number | string }>(item: T, sort: SortKey[]): unknown[] {
+    const record = item as unknown as Record<string, unknown>;
+    return [...sort.map(s => record[s.field]), item.id];
+}
+
+function compareKeys(a: unknown[], b: unknown[], sort: SortKey[]): number {
+    for (let i = 0; i < a.length; i++) {
+        const direction = sort[i]?.direction ?? 1;
+        const order = compareValues(a[i], b[i]) * direction;
+        if (order !== 0) return order;
+    }
+    return 0;
+}
+
+export function applyListQuery<T extends { id: number | string }>(items: T[], query: ListQuery): ListPage<T> {
+    const filtered = items.filter(item => {
+        const record = item as unknown as Record<string, unknown>;
+        return query.filters.every(f => matches(record[f.field], f));
+    });
+
+    const keyed = filtered
+        .map(item => ({ item, key: sortKeyOf(item, query.sort) }))
+        .sort((a, b) => compareKeys(a.key, b.key, query.sort));
+
+    const cursor = query.cursor;
+    const start = cursor !== undefined
+        ? keyed.findIndex(entry => compareKeys(entry.key, cursor, query.sort) > 0)
+        : (query.page - 1) * query.limit;
+
+    const slice = start === -1 ? [] : keyed.slice(start, start + query.limit);
+    const last = slice[slice.length - 1];
+    const hasMore = start !== -1 && start + query.limit < keyed.length;
+
+    return {
+        data: slice.map(entry => entry.item),
+        total: filtered.length,
+        nextCursor: hasMore && last ? encodeCursor(last.key) : null
+    };
+}
+
+/* LINKS
+Rebuilds the request URL with some query parameters replaced (null removes one)*/
+export function buildLink(path: string, query: Record<string, unknown>, changes: Record<string, string | null>): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (typeof value === "string" && !(key in changes)) params.append(key, value);
+    }
+    for (const [key, value] of Object.entries(changes)) {
+        if (value !== null) params.set(key, value);
+    }
+    const search = params.toString();
+    return search ? `${path}?${search}` : path;
+}
@@ -0,0 +1,136 @@
+import type { Request, Response, NextFunction } from 'express';
+import type { LogLevel } from './config.ts';
+
+/* STRUCTURED LOGGING
+One JSON object per line, so logs can be grepped by requestId or fed
+to any log collector:
+
+    {"time":"2026-01-01T12:00:00.000Z","level":"info","msg":"request","requestId":"...","method":"GET","route":"/api/users/:id","status":200,"durationMs":1.8,"userId":1}
+
+The level comes from the config (logLevel / LOG_LEVEL); server.js calls
+configureLogging() once at startup*/
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+export type LogFields = Record<string, unknown>;
+
+interface LogSettings {
+    level: LogLevel;
+    write: (line: string) => void;
+}
+
+let settings: LogSettings = {
+    level: "info",
+    write: line => process.stdout.write(line + "\n")
+};
+
+export function configureLogging(options: { [K in keyof LogSettings]?: LogSettings[K] | undefined }): void {
+    settings = {
+        level: options.level ?? settings.level,
+        write: options.write ?? settings.write
+    };
+}
+
+/* REDACTION
+Values under these keys never reach the logs, at any depth. Email
+addresses inside free text (e.g. a ConflictError message) are masked too*/
+const SENSITIVE_KEYS = new Set([
+    "email", "password", "passwordhash", "authorization", "cookie",
+    "accesstoken", "refreshtoken", "token", "secret", "authsecret"
+]);
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+export const REDACTED = "[REDACTED]";
+
+export function redact(value: unknown, depth = 0): unknown {
+    if (typeof value === "string") return value.replace(EMAIL_PATTERN, REDACTED);
+    if (typeof value !== "object" || value === null) return value;
+    if (depth > 8) return "[Truncated]";
+    if (value instanceof Error) {
+        return { name: value.name, message: redact(value.message), stack: redact(value.stack) };
+    }
+    if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+    const result: LogFields = {};
+    for (const [key, item] of Object.entries(value)) {
+        result[key] = SENSITIVE_KEYS.has(key.toLowerCase()) && item !== undefined ? REDACTED : redact(item, depth + 1);
+    }
+    return result;
+}
+
+/* LOGGER
+child() returns a logger that adds its bindings to every line, e.g.
+res.locals.log carries the requestId of the current request*/
+export class Logger {
+    private readonly bindings: LogFields;
+
+    constructor(bindings: LogFields = {}) {
+        this.bindings = bindings;
+    }
+
+    child(bindings: LogFields): Logger {
+        return new Logger({ ...this.bindings, ...bindings });
+    }
+
+    isEnabled(level: LogLevel): boolean {
+        return LEVEL_ORDER[level] >= LEVEL_ORDER[settings.level];
+    }
+
+    debug(msg: string, fields?: LogFields): void { this.log("debug", msg, fields); }
+    info(msg: string, fields?: LogFields): void { this.log("info", msg, fields); }
+    warn(msg: string, fields?: LogFields): void { this.log("warn", msg, fields); }
+    error(msg: string, fields?: LogFields): void { this.log("error", msg, fields); }
+
+    private log(level: Exclude<LogLevel, "silent">, msg: string, fields: LogFields = {}): void {
+        if (!this.isEnabled(level)) return;
+        const entry = { time: new Date().toISOString(), level, msg, ...this.bindings, ...fields };
+        settings.write(JSON.stringify(redact(entry)));
+    }
+}
+
+export const logger = new Logger();
+
+/* REQUEST LOGGING
+Must be mounted right after assignRequestId: one line per request once
+the response is sent (or the client went away), 4xx as warn, 5xx as error*/
+declare global {
+    namespace Express {
+        interface Locals {
+            log: Logger;
+            errorCode?: string;     // set by errorHandler
+        }
+    }
+}
+
+// The route pattern (/api/users/:id) groups requests better than the raw path
+export function routeOf(req: Request): string | undefined {
+    const path: unknown = req.route?.path;
+    return typeof path === "string" ? req.baseUrl + path : undefined;
+}
+
+export function requestLogger(req: Request, res: Response, next: NextFunction): void {
+    const start = process.hrtime.bigint();
+    const log = logger.child({ requestId: res.locals.requestId });
+    res.locals.log = log;
+
+    let logged = false;
+    const done = (aborted: boolean) => {
+        if (logged) return;
+        logged = true;
+        const fields: LogFields = {
+            method: req.method,
+            route: routeOf(req),
+            path: req.path,
+            status: res.statusCode,
+            durationMs: Math.round(Number(process.hrtime.bigint() - start) / 1e4) / 100,
+            userId: res.locals.auth?.userId,
+            errorCode: res.locals.errorCode
+        };
+        if (aborted) fields.aborted = true;
+
+        if (res.statusCode >= 500) log.error("request", fields);
+        else if (res.statusCode >= 400 || aborted) log.warn("request", fields);
+        else log.info("request", fields);
+    };
+    res.on("finish", () => done(false));
+    res.on("close", () => done(!res.writableFinished));
+    next();
+}
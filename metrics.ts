@@ -0,0 +1,251 @@
+import type { Express, Request, Response, NextFunction } from 'express';
+import { routeOf } from './logger.ts';
+
+/* METRICS REGISTRY
+A minimal in-process registry: counters, gauges and histograms with
+labels, rendered in the Prometheus text exposition format at /metrics.
+Every label combination is its own series, so label values must come
+from a small set (route patterns, not raw paths)*/
+export type Labels = Record<string, string | number>;
+
+type MetricType = "counter" | "gauge" | "histogram";
+
+// Stable key for one label combination, in labelNames order
+function seriesKey(labelNames: readonly string[], labels: Labels): string {
+    return JSON.stringify(labelNames.map(name => String(labels[name] ?? "")));
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labelNames: readonly string[], values: string[], extra: Labels = {}): string {
+    const pairs = labelNames.map((name, i) => `${name}="${escapeLabel(values[i] ?? "")}"`);
+    for (const [name, value] of Object.entries(extra)) pairs.push(`${name}="${escapeLabel(String(value))}"`);
+    return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+    if (Number.isNaN(value)) return "NaN";
+    if (value === Infinity) return "+Inf";
+    if (value === -Infinity) return "-Inf";
+    return String(value);
+}
+
+export interface MetricOptions {
+    name: string;
+    help: string;
+    labelNames?: readonly string[];
+}
+
+abstract class Metric {
+    readonly name: string;
+    readonly help: string;
+    readonly labelNames: readonly string[];
+    abstract readonly type: MetricType;
+
+    constructor(options: MetricOptions) {
+        this.name = options.name;
+        this.help = options.help;
+        this.labelNames = options.labelNames ?? [];
+    }
+
+    protected abstract samples(): Promise<string[]>;
+
+    async render(): Promise<string> {
+        const help = this.help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+        return [`# HELP ${this.name} ${help}`, `# TYPE ${this.name} ${this.type}`, ...await this.samples()].join("\n");
+    }
+}
+
+export class Counter extends Metric {
+    readonly type = "counter";
+    private values = new Map<string, number>();
+
+    inc(labels: Labels = {}, amount = 1): void {
+        if (amount < 0) throw new RangeError("A counter can only go up");
+        const key = seriesKey(this.labelNames, labels);
+        this.values.set(key, (this.values.get(key) ?? 0) + amount);
+    }
+
+    protected async samples(): Promise<string[]> {
+        return [...this.values].map(([key, value]) =>
+            `${this.name}${formatLabels(this.labelNames, JSON.parse(key))} ${formatValue(value)}`);
+    }
+}
+
+// `collect` is called on every scrape, for values owned by someone else (e.g. the store size)
+export interface GaugeOptions extends MetricOptions {
+    collect?: (gauge: Gauge) => void | Promise<void>;
+}
+
+export class Gauge extends Metric {
+    readonly type = "gauge";
+    private values = new Map<string, number>();
+    private collect: GaugeOptions["collect"];
+
+    constructor(options: GaugeOptions) {
+        super(options);
+        this.collect = options.collect;
+    }
+
+    set(labels: Labels, value: number): void {
+        this.values.set(seriesKey(this.labelNames, labels), value);
+    }
+
+    inc(labels: Labels = {}, amount = 1): void {
+        const key = seriesKey(this.labelNames, labels);
+        this.values.set(key, (this.values.get(key) ?? 0) + amount);
+    }
+
+    dec(labels: Labels = {}, amount = 1): void {
+        this.inc(labels, -amount);
+    }
+
+    protected async samples(): Promise<string[]> {
+        await this.collect?.(this);
+        return [...this.values].map(([key, value]) =>
+            `${this.name}${formatLabels(this.labelNames, JSON.parse(key))} ${formatValue(value)}`);
+    }
+}
+
+export interface HistogramOptions extends MetricOptions {
+    buckets?: readonly number[];    // upper bounds, ascending; +Inf is implied
+}
+
+// Seconds, tuned for HTTP latencies
+export const DEFAULT_BUCKETS: readonly number[] = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface HistogramSeries {
+    counts: number[];   // per bucket, not cumulative
+    sum: number;
+    count: number;
+}
+
+export class Histogram extends Metric {
+    readonly type = "histogram";
+    readonly buckets: readonly number[];
+    private series = new Map<string, HistogramSeries>();
+
+    constructor(options: HistogramOptions) {
+        super(options);
+        this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+    }
+
+    observe(labels: Labels, value: number): void {
+        const key = seriesKey(this.labelNames, labels);
+        let series = this.series.get(key);
+        if (!series) {
+            series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+            this.series.set(key, series);
+        }
+        const index = this.buckets.findIndex(bound => value <= bound);
+        if (index >= 0) series.counts[index]! += 1;
+        series.sum += value;
+        series.count += 1;
+    }
+
+    protected async samples(): Promise<string[]> {
+        const lines: string[] = [];
+        for (const [key, series] of this.series) {
+            const values: string[] = JSON.parse(key);
+            let cumulative = 0;
+            this.buckets.forEach((bound, i) => {
+                cumulative += series.counts[i]!;
+                lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, { le: formatValue(bound) })} ${cumulative}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels(this.labelNames, values, { le: "+Inf" })} ${series.count}`);
+            lines.push(`${this.name}_sum${formatLabels(this.labelNames, values)} ${formatValue(series.sum)}`);
+            lines.push(`${this.name}_count${formatLabels(this.labelNames, values)} ${series.count}`);
+        }
+        return lines;
+    }
+}
+
+export class MetricsRegistry {
+    private metrics = new Map<string, Metric>();
+
+    private add<M extends Metric>(metric: M): M {
+        if (this.metrics.has(metric.name)) throw new Error(`Metric ${metric.name} is already registered`);
+        this.metrics.set(metric.name, metric);
+        return metric;
+    }
+
+    counter(options: MetricOptions): Counter {
+        return this.add(new Counter(options));
+    }
+
+    gauge(options: GaugeOptions): Gauge {
+        return this.add(new Gauge(options));
+    }
+
+    histogram(options: HistogramOptions): Histogram {
+        return this.add(new Histogram(options));
+    }
+
+    async render(): Promise<string> {
+        const blocks = await Promise.all([...this.metrics.values()].map(metric => metric.render()));
+        return blocks.join("\n") + "\n";
+    }
+}
+
+export const metrics = new MetricsRegistry();
+
+/* HTTP INSTRUMENTATION
+Mounted next to requestLogger so every route is measured, including
+404s (route="unmatched") and errors*/
+const httpRequests = metrics.counter({
+    name: "http_requests_total",
+    help: "HTTP requests handled, by method, route and status",
+    labelNames: ["method", "route", "status"]
+});
+
+const httpDuration = metrics.histogram({
+    name: "http_request_duration_seconds",
+    help: "HTTP request latency in seconds, by method, route and status",
+    labelNames: ["method", "route", "status"]
+});
+
+const httpInFlight = metrics.gauge({
+    name: "http_requests_in_flight",
+    help: "HTTP requests currently being handled"
+});
+
+metrics.gauge({
+    name: "process_resident_memory_bytes",
+    help: "Resident memory size in bytes",
+    collect: gauge => gauge.set({}, process.memoryUsage.rss())
+});
+
+metrics.gauge({
+    name: "process_uptime_seconds",
+    help: "Seconds since the process started",
+    collect: gauge => gauge.set({}, process.uptime())
+});
+
+export function metricsMiddleware(req: Request, res: Response, next: NextFunction): void {
+    const start = process.hrtime.bigint();
+    httpInFlight.inc();
+
+    let recorded = false;
+    const done = () => {
+        if (recorded) return;
+        recorded = true;
+        httpInFlight.dec();
+        const labels = { method: req.method, route: routeOf(req) ?? "unmatched", status: res.statusCode };
+        httpRequests.inc(labels);
+        httpDuration.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+    };
+    res.on("finish", done);
+    res.on("close", done);
+    next();
+}
+
+/* ENDPOINT */
+export function serveMetrics(app: Express, registry: MetricsRegistry = metrics): void {
+    app.get("/metrics", async (req, res) => {
+        const body = await registry.render();
+        res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+        res.send(body);
+    });
+}
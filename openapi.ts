@@ -0,0 +1,401 @@
+import type { Express, Request, Response, RequestHandler } from 'express';
+import type { FieldRule, Schema } from './validation.ts';
+import { validateBody } from './validation.ts';
+import { requireAuth } from './auth.ts';
+import { idempotent } from './idempotency.ts';
+import type { ApiResponse } from './apiResponse.ts';
+import type { RateLimiter } from './rateLimit.ts';
+
+/* ROUTE DEFINITIONS
+Single source of truth for the HTTP API: registerRoutes() mounts these
+on Express and buildOpenApiDocument() turns the very same objects into
+an OpenAPI 3.1 document.
+
+The generics tie each handler to its schemas at compile time:
+- B: the request body described by `body` must be the body the handler reads
+- R: the data described by `response` must be what the handler sends
+so a handler whose types drift from the spec no longer type-checks*/
+export type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+
+export type JsonSchema = Record<string, unknown>;
+
+// A schema for response data; `__type` only exists for the type checker
+export interface DataSpec<T> {
+    readonly json: JsonSchema;
+    readonly components: Record<string, JsonSchema>;
+    readonly __type?: T;
+}
+
+export interface BodySpec<T> {
+    readonly schema: Schema<T>;
+    readonly partial: boolean;
+    readonly name: string;
+}
+
+export interface QueryParamDoc {
+    name: string;
+    description: string;
+    type: "string" | "integer" | "number" | "boolean";
+    required?: boolean;
+    // A filter sent as name[op]=value (deepObject style), `type` being the type of each value
+    operators?: readonly string[];
+}
+
+export interface RouteDefinition<P = unknown, B = unknown, R = unknown> {
+    method: HttpMethod;
+    path: string;               // Express syntax, e.g. /api/users/:id
+    summary: string;
+    tag: string;
+    auth?: boolean;             // adds requireAuth and the bearer security scheme
+    rateLimit?: RateLimiter;    // runs after requireAuth, so it can count per user
+    body?: BodySpec<B>;         // adds validateBody()
+    upload?: { mediaTypes: string[]; description: string };    // non-JSON body the handler streams itself
+    idempotent?: boolean;       // honours the Idempotency-Key header (see idempotency.ts)
+    conditional?: "read" | "write";     // documents If-None-Match (304) or If-Match (412); the handler sets the ETag
+    query?: QueryParamDoc[];
+    // `mediaTypes` for responses that are not the JSON envelope (file downloads)
+    response: { status: number; description: string; data?: DataSpec<R>; mediaTypes?: string[] };
+    errors?: Record<number, string>;    // route-specific error responses, e.g. { 503: "Not ready" }
+    // Method syntax on purpose: parameters are then compared both ways, so any
+    // RouteDefinition<P, B, R> fits in the `readonly RouteDefinition[]` table
+    handler(req: Request<P, unknown, B>, res: Response<ApiResponse<R>>): void | Promise<void>;
+}
+
+export function defineRoute<P, B, R>(route: RouteDefinition<P, B, R>): RouteDefinition<P, B, R> {
+    return route;
+}
+
+/* SCHEMA HELPERS */
+export function body<T>(name: string, schema: Schema<T>): BodySpec<T> {
+    return { schema, partial: false, name };
+}
+
+// PATCH bodies: same rules, every field optional (Schema<T> ignores `?`, so the cast is safe)
+export function partialBody<T>(name: string, schema: Schema<T>): BodySpec<Partial<T>> {
+    return { schema: schema as Schema<Partial<T>>, partial: true, name };
+}
+
+function fieldToJson(rule: FieldRule): JsonSchema {
+    const json: JsonSchema = {};
+    switch (rule.type) {
+        case "any":
+            return {};
+        case "boolean":
+            return { type: "boolean" };
+        case "object":
+            return rule.fields ? schemaToJson(rule.fields) : { type: "object" };
+        case "id":
+            return { oneOf: [{ type: "integer", minimum: 1 }, { type: "string", minLength: 1 }] };
+        case "array":
+            json.type = "array";
+            if (rule.items) json.items = fieldToJson(rule.items);
+            if (rule.min !== undefined) json.minItems = rule.min;
+            if (rule.max !== undefined) json.maxItems = rule.max;
+            return json;
+        case "number":
+            json.type = rule.integer ? "integer" : "number";
+            if (rule.min !== undefined) json.minimum = rule.min;
+            if (rule.max !== undefined) json.maximum = rule.max;
+            return json;
+        case "string":
+            json.type = "string";
+            if (rule.format) json.format = rule.format;
+            if (rule.enum) json.enum = [...rule.enum];
+            if (rule.min !== undefined) json.minLength = rule.min;
+            if (rule.max !== undefined) json.maxLength = rule.max;
+            return json;
+    }
+}
+
+export function schemaToJson<T>(schema: Schema<T>, partial = false): JsonSchema {
+    const rules = Object.entries(schema) as [string, FieldRule][];
+    const required = rules.filter(([, rule]) => !rule.optional && !partial).map(([field]) => field);
+    return {
+        type: "object",
+        properties: Object.fromEntries(rules.map(([field, rule]) => [field, fieldToJson(rule)])),
+        ...(required.length > 0 ? { required } : {}),
+        additionalProperties: false
+    };
+}
+
+// A named object, emitted once under components.schemas and referenced elsewhere
+export function objectSpec<T>(name: string, schema: Schema<T>): DataSpec<T> {
+    return {
+        json: { $ref: `#/components/schemas/${name}` },
+        components: { [name]: schemaToJson(schema) }
+    };
+}
+
+export function listSpec<T>(item: DataSpec<T>): DataSpec<T[]> {
+    return { json: { type: "array", items: item.json }, components: item.components };
+}
+
+// `base` plus a few extra fields, e.g. a search hit = user + score
+export function extendSpec<T, X>(name: string, base: DataSpec<T>, extra: Schema<X>): DataSpec<T & X> {
+    return {
+        json: { $ref: `#/components/schemas/${name}` },
+        components: { ...base.components, [name]: { allOf: [base.json, schemaToJson(extra)] } }
+    };
+}
+
+/* EXPRESS REGISTRATION */
+export function registerRoutes(app: Express, routes: readonly RouteDefinition[]): void {
+    for (const route of routes) {
+        const handlers: RequestHandler[] = [];
+        if (route.auth) handlers.push(requireAuth as RequestHandler);
+        if (route.rateLimit) handlers.push(route.rateLimit);
+        if (route.body) handlers.push(validateBody(route.body.schema, { partial: route.body.partial }));
+        if (route.idempotent) handlers.push(idempotent);
+        handlers.push(route.handler as RequestHandler);
+        app[route.method](route.path, ...handlers);
+    }
+}
+
+/* OPENAPI DOCUMENT */
+const SHARED_COMPONENTS: Record<string, JsonSchema> = {
+    ValidationIssue: {
+        type: "object",
+        properties: {
+            field: { type: "string" },
+            code: { type: "string", enum: ["required", "invalid_type", "invalid_format", "too_small", "too_large", "unknown_field"] },
+            message: { type: "string" }
+        },
+        required: ["field", "code", "message"]
+    },
+    ResponseMeta: {
+        type: "object",
+        properties: {
+            requestId: { type: "string" },
+            pagination: {
+                type: "object",
+                properties: {
+                    total: { type: "integer" },
+                    limit: { type: "integer" },
+                    page: { type: "integer" },
+                    nextCursor: { type: ["string", "null"] },
+                    links: { type: "object", additionalProperties: { type: ["string", "null"] } }
+                },
+                required: ["total", "limit"]
+            }
+        }
+    },
+    ErrorResponse: {
+        type: "object",
+        properties: {
+            status: { const: "error" },
+            error: { type: "string" },
+            code: { type: "string" },
+            details: { type: "array", items: { $ref: "#/components/schemas/ValidationIssue" } },
+            policy: { type: "object" },
+            health: { $ref: "#/components/schemas/ReadinessReport" },
+            meta: { $ref: "#/components/schemas/ResponseMeta" }
+        },
+        required: ["status", "error", "code", "meta"]
+    }
+};
+
+function errorResponse(description: string): JsonSchema {
+    return { description, content: { "application/json": { schema: { $ref: "#/components/schemas/ErrorResponse" } } } };
+}
+
+// "/api/users/:id" → "/api/users/{id}"
+function toOpenApiPath(path: string): { path: string; params: string[] } {
+    const params: string[] = [];
+    const converted = path.replace(/:(\w+)/g, (_, name: string) => {
+        params.push(name);
+        return `{${name}}`;
+    });
+    return { path: converted, params };
+}
+
+export interface ApiInfo {
+    title: string;
+    version: string;
+    description?: string;
+}
+
+export function buildOpenApiDocument(routes: readonly RouteDefinition[], info: ApiInfo): JsonSchema {
+    const paths: Record<string, Record<string, JsonSchema>> = {};
+    const schemas: Record<string, JsonSchema> = { ...SHARED_COMPONENTS };
+
+    for (const route of routes) {
+        const { path, params } = toOpenApiPath(route.path);
+        const operation: JsonSchema = {
+            operationId: `${route.method}${path.replace(/[{}]/g, "").replace(/\/(\w)/g, (_, c: string) => c.toUpperCase())}`,
+            summary: route.summary,
+            tags: [route.tag]
+        };
+
+        const parameters: JsonSchema[] = [
+            ...params.map(name => ({ name, in: "path", required: true, schema: { type: "string" } })),
+            ...(route.query ?? []).map(q => q.operators ? {
+                name: q.name, in: "query", required: q.required ?? false,
+                description: q.description, style: "deepObject", explode: true,
+                schema: {
+                    type: "object",
+                    properties: Object.fromEntries(q.operators.map(op => [op, { type: q.type }])),
+                    additionalProperties: false
+                }
+            } : {
+                name: q.name, in: "query", required: q.required ?? false,
+                description: q.description, schema: { type: q.type }
+            })
+        ];
+        if (route.idempotent) {
+            parameters.push({
+                name: "Idempotency-Key", in: "header", required: false,
+                description: "Unique per logical request; retries with the same key and body replay the first response",
+                schema: { type: "string" }
+            });
+        }
+        if (route.conditional) {
+            const read = route.conditional === "read";
+            parameters.push({
+                name: read ? "If-None-Match" : "If-Match", in: "header", required: false,
+                description: read
+                    ? "ETag of a cached copy; 304 when it is still current"
+                    : "ETag the change is based on; 412 when the resource changed since",
+                schema: { type: "string" }
+            });
+        }
+        if (parameters.length > 0) operation.parameters = parameters;
+
+        if (route.body) {
+            const name = route.body.name;
+            schemas[name] = schemaToJson(route.body.schema, route.body.partial);
+            operation.requestBody = {
+                required: true,
+                content: { "application/json": { schema: { $ref: `#/components/schemas/${name}` } } }
+            };
+        }
+        if (route.upload) {
+            operation.requestBody = {
+                required: true,
+                description: route.upload.description,
+                content: Object.fromEntries(route.upload.mediaTypes.map(type => [type, { schema: { type: "string" } }]))
+            };
+        }
+
+        const responses: Record<string, JsonSchema> = {};
+        const data = route.response.data;
+        if (data) {
+            Object.assign(schemas, data.components);
+            responses[route.response.status] = {
+                description: route.response.description,
+                content: {
+                    "application/json": {
+                        schema: {
+                            type: "object",
+                            properties: {
+                                status: { const: "success" },
+                                data: data.json,
+                                meta: { $ref: "#/components/schemas/ResponseMeta" }
+                            },
+                            required: ["status", "data", "meta"]
+                        }
+                    }
+                },
+                ...(route.conditional ? { headers: { ETag: { description: "Strong ETag of the returned data", schema: { type: "string" } } } } : {})
+            };
+        } else if (route.response.mediaTypes) {
+            responses[route.response.status] = {
+                description: route.response.description,
+                content: Object.fromEntries(route.response.mediaTypes.map(type => [type, { schema: { type: "string" } }]))
+            };
+        } else {
+            responses[route.response.status] = { description: route.response.description };
+        }
+        if (route.body || route.query || params.length > 0) responses[400] = errorResponse("Invalid request");
+        if (route.upload) responses[415] = errorResponse(`Content-Type is not one of: ${route.upload.mediaTypes.join(", ")}`);
+        if (route.auth) {
+            responses[401] = errorResponse("Missing or invalid access token");
+            responses[403] = errorResponse("Denied by the access policy");
+            operation.security = [{ bearerAuth: [] }];
+        }
+        if (params.length > 0) responses[404] = errorResponse("Not found");
+        if (route.conditional === "read") responses[304] = { description: "Not modified (If-None-Match matched)" };
+        if (route.conditional === "write") responses[412] = errorResponse("If-Match does not match the current ETag");
+        if (route.idempotent) {
+            responses[409] = errorResponse("Conflict, or a request with the same Idempotency-Key is still running");
+            responses[422] = errorResponse("Idempotency-Key reused with a different body");
+        }
+        if (route.rateLimit) {
+            responses[429] = errorResponse(`Rate limited (${route.rateLimit.options.strategy.policy}); see Retry-After`);
+        }
+        for (const [status, description] of Object.entries(route.errors ?? {})) {
+            responses[status] = errorResponse(description);
+        }
+        operation.responses = responses;
+
+        paths[path] = { ...paths[path], [route.method]: operation };
+    }
+
+    return {
+        openapi: "3.1.0",
+        info,
+        paths,
+        components: {
+            schemas: Object.fromEntries(Object.entries(schemas).sort(([a], [b]) => a.localeCompare(b))),
+            securitySchemes: { bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" } }
+        }
+    };
+}
+
+/* DOCS ENDPOINTS
+/openapi.json serves the document; /docs is a self-contained HTML page
+(no CDN), so it also works offline*/
+export function serveOpenApi(app: Express, document: JsonSchema): void {
+    app.get("/openapi.json", (req, res) => {
+        res.json(document);
+    });
+    app.get("/docs", (req, res) => {
+        res.type("html").send(DOCS_PAGE);
+    });
+}
+
+const DOCS_PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>API docs</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #222; }
+  details { border: 1px solid #ddd; border-radius: 6px; margin: .5rem 0; padding: .5rem 1rem; }
+  summary { cursor: pointer; font-family: monospace; font-size: 1rem; }
+  .method { display: inline-block; width: 4.5rem; font-weight: bold; text-transform: uppercase; }
+  .get { color: #1971c2; } .post { color: #2f9e44; } .put { color: #e67700; }
+  .patch { color: #9c36b5; } .delete { color: #c92a2a; }
+  pre { background: #f6f8fa; padding: .75rem; overflow: auto; }
+</style>
+</head>
+<body>
+<h1 id="title">API docs</h1>
+<p><a href="/openapi.json">openapi.json</a></p>
+<div id="operations"></div>
+<script>
+fetch("/openapi.json").then(r => r.json()).then(doc => {
+  document.getElementById("title").textContent = doc.info.title + " " + doc.info.version;
+  const root = document.getElementById("operations");
+  for (const [path, operations] of Object.entries(doc.paths)) {
+    for (const [method, op] of Object.entries(operations)) {
+      const details = document.createElement("details");
+      const summary = document.createElement("summary");
+      summary.innerHTML = '<span class="method ' + method + '">' + method + "</span>";
+      summary.append(path + (op.security ? " 🔒" : "") + " — " + op.summary);
+      const pre = document.createElement("pre");
+      pre.textContent = JSON.stringify(op, null, 2);
+      details.append(summary, pre);
+      root.append(details);
+    }
+  }
+  const schemas = document.createElement("details");
+  schemas.innerHTML = "<summary>Schemas</summary>";
+  const pre = document.createElement("pre");
+  pre.textContent = JSON.stringify(doc.components.schemas, null, 2);
+  schemas.append(pre);
+  root.append(schemas);
+});
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,45 @@
+import { randomBytes, scrypt, scryptSync, timingSafeEqual } from 'node:crypto';
+
+/* PASSWORD HASHING
+scrypt with a random 16-byte salt. The stored string carries everything
+needed to verify it later:
+
+    scrypt$<salt base64url>$<hash base64url>
+*/
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+function format(salt: Buffer, hash: Buffer): string {
+    return `scrypt$${salt.toString("base64url")}$${hash.toString("base64url")}`;
+}
+
+export function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(SALT_BYTES);
+    return new Promise((resolve, reject) => {
+        scrypt(password, salt, KEY_LENGTH, (err, hash) => {
+            if (err) reject(err);
+            else resolve(format(salt, hash));
+        });
+    });
+}
+
+// Blocking variant, only meant for seed data at startup
+export function hashPasswordSync(password: string): string {
+    const salt = randomBytes(SALT_BYTES);
+    return format(salt, scryptSync(password, salt, KEY_LENGTH));
+}
+
+export function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, salt, hash] = stored.split("$");
+    if (scheme !== "scrypt" || salt === undefined || hash === undefined) {
+        return Promise.resolve(false);
+    }
+    const expected = Buffer.from(hash, "base64url");
+    return new Promise((resolve, reject) => {
+        scrypt(password, Buffer.from(salt, "base64url"), expected.length, (err, actual) => {
+            if (err) reject(err);
+            // Constant-time comparison so timing does not leak how many bytes matched
+            else resolve(actual.length === expected.length && timingSafeEqual(actual, expected));
+        });
+    });
+}
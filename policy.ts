@@ -0,0 +1,127 @@
+import type { UserId } from './idGenerator.ts';
+import type { UserData } from './users.ts';
+import { ForbiddenError } from './errors.ts';
+
+/* ROLES
+Mirror the Person → Employee → Manager hierarchy of
+example-scripts/Interfaces.ts: a manager's `employeesUnder` lists the
+users reporting to them, and the people under those (if they are
+managers too) form the manager's subtree*/
+export type Role = "admin" | "manager" | "employee";
+
+export const ROLES: readonly Role[] = ["admin", "manager", "employee"];
+
+// Same idea as `AdminUser = Person & Admin` in UnionAndIntersectionTypes.ts
+export type AdminUser = UserData & { role: "admin" };
+
+export function isAdmin(user: UserData): user is AdminUser {
+    return user.role === "admin";
+}
+
+/* PERMISSIONS
+Each permission lists who is granted it:
+- a role, either on any user or only on the manager's subtree
+- "self": any user, on their own record*/
+export type Permission =
+    | "users:read"
+    | "users:create"
+    | "users:update"
+    | "users:delete"          // soft delete and restore
+    | "users:read-deleted"    // ?includeDeleted=true
+    | "users:manage-roles"    // changing role / employeesUnder
+    | "users:set-password"    // changing someone's password (not even their manager may)
+    | "users:audit";          // reading the change history
+
+export type Grant =
+    | { role: Role; scope: "any" | "subtree" }
+    | { role: "self" };
+
+export const POLICY: Record<Permission, readonly Grant[]> = {
+    "users:read": [{ role: "admin", scope: "any" }, { role: "manager", scope: "subtree" }, { role: "self" }],
+    "users:create": [{ role: "admin", scope: "any" }],
+    "users:update": [{ role: "admin", scope: "any" }, { role: "manager", scope: "subtree" }, { role: "self" }],
+    "users:delete": [{ role: "admin", scope: "any" }],
+    "users:read-deleted": [{ role: "admin", scope: "any" }],
+    "users:manage-roles": [{ role: "admin", scope: "any" }],
+    "users:set-password": [{ role: "admin", scope: "any" }, { role: "self" }],
+    "users:audit": [{ role: "admin", scope: "any" }, { role: "manager", scope: "subtree" }]
+};
+
+// Sent in the 403 body so clients can tell why a request was refused
+export interface PolicyDenial {
+    permission: Permission;
+    role: Role;
+    reason: string;
+    grantedTo: string[];
+}
+
+export type Decision =
+    | { allowed: true }
+    | { allowed: false; denial: PolicyDenial };
+
+function describeGrant(grant: Grant): string {
+    if (grant.role === "self") return "self";
+    return grant.scope === "any" ? grant.role : `${grant.role} (own subtree)`;
+}
+
+/* POLICY ENGINE
+Built once per request for the authenticated user: the manager subtree
+is resolved up front, so each check() afterwards is synchronous (handy
+when filtering a whole list)*/
+export type UserLookup = (id: UserId) => Promise<UserData | undefined>;
+
+export class AccessPolicy {
+    readonly principal: UserData;
+    private subtree: Set<UserId>;
+
+    private constructor(principal: UserData, subtree: Set<UserId>) {
+        this.principal = principal;
+        this.subtree = subtree;
+    }
+
+    static async for(principal: UserData, lookup: UserLookup): Promise<AccessPolicy> {
+        const subtree = new Set<UserId>();
+        if (principal.role === "manager") {
+            // Breadth-first walk; the visited set protects against cycles
+            const queue = [...(principal.employeesUnder ?? [])];
+            while (queue.length > 0) {
+                const id = queue.shift()!;
+                if (subtree.has(id) || id === principal.id) continue;
+                const user = await lookup(id);
+                if (!user) continue;
+                subtree.add(id);
+                queue.push(...(user.employeesUnder ?? []));
+            }
+        }
+        return new AccessPolicy(principal, subtree);
+    }
+
+    private matches(grant: Grant, target: UserData | undefined): boolean {
+        if (grant.role === "self") return target !== undefined && target.id === this.principal.id;
+        if (grant.role !== this.principal.role) return false;
+        return grant.scope === "any" || (target !== undefined && this.subtree.has(target.id));
+    }
+
+    check(permission: Permission, target?: UserData): Decision {
+        const grants = POLICY[permission];
+        if (grants.some(grant => this.matches(grant, target))) {
+            return { allowed: true };
+        }
+
+        const role = this.principal.role;
+        const grantedTo = grants.map(describeGrant);
+        const roleGrant = grants.find(g => g.role === role);
+        const reason = roleGrant
+            ? `Role "${role}" may only ${permission.split(":")[1]} users in their own subtree`
+            : `Role "${role}" is not granted "${permission}"`;
+        return { allowed: false, denial: { permission, role, reason, grantedTo } };
+    }
+
+    // Throws a 403 that explains the denial
+    assert(permission: Permission, target?: UserData): void {
+        const decision = this.check(permission, target);
+        if (!decision.allowed) {
+            throw new ForbiddenError(decision.denial.reason, decision.denial);
+        }
+    }
+}
@@ -0,0 +1,200 @@
+import { createHash } from 'node:crypto';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { TooManyRequestsError } from './errors.ts';
+
+/* RATE LIMITING
+A limiter = a strategy (how many requests, over what time) + a key
+(who is being counted) + a store (where the counts live).
+
+    const limiter = rateLimit({ name: "create-user", keyBy: "user", strategy: tokenBucket({ capacity: 5, refillPerSecond: 1 / 12 }) });
+
+Rejected requests get a 429 with Retry-After; every response carries
+the RateLimit-Limit / -Remaining / -Reset / -Policy headers of the
+limiter that ran last*/
+export interface RateLimitDecision {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetMs: number;        // until the limit is fully restored
+    retryAfterMs: number;   // until the next request would be allowed (0 when allowed)
+}
+
+export interface RateLimitStrategy<S = unknown> {
+    readonly policy: string;    // RateLimit-Policy value, e.g. "10;w=60"
+    readonly ttlMs: number;     // state older than this can be forgotten
+    consume(state: S | undefined, now: number): { state: S; decision: RateLimitDecision };
+}
+
+/* STORES
+update() must be atomic per key: a shared store (Redis...) would run
+`fn` in a transaction or script. The in-memory store is atomic because
+`fn` is synchronous*/
+export interface RateLimitStore {
+    update<S, R>(key: string, ttlMs: number, fn: (state: S | undefined) => { state: S; result: R }): Promise<R>;
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+    private entries = new Map<string, { state: unknown; expiresAt: number }>();
+    private writes = 0;
+
+    async update<S, R>(key: string, ttlMs: number, fn: (state: S | undefined) => { state: S; result: R }): Promise<R> {
+        const now = Date.now();
+        const entry = this.entries.get(key);
+        const current = entry && entry.expiresAt > now ? entry.state as S : undefined;
+        const { state, result } = fn(current);
+        this.entries.set(key, { state, expiresAt: now + ttlMs });
+        // Sweep expired keys now and then, so one-off clients do not pile up
+        if (++this.writes % 1000 === 0) this.sweep(now);
+        return result;
+    }
+
+    private sweep(now: number): void {
+        for (const [key, entry] of this.entries) {
+            if (entry.expiresAt <= now) this.entries.delete(key);
+        }
+    }
+}
+
+let store: RateLimitStore = new InMemoryRateLimitStore();
+
+export function configureRateLimiting(options: { store?: RateLimitStore | undefined }): void {
+    store = options.store ?? store;
+}
+
+/* STRATEGIES */
+
+// Bursts up to `capacity`, then a steady `refillPerSecond`
+export function tokenBucket(options: { capacity: number; refillPerSecond: number }): RateLimitStrategy<{ tokens: number; updatedAt: number }> {
+    const { capacity, refillPerSecond } = options;
+    const refillPerMs = refillPerSecond / 1000;
+    return {
+        policy: `${capacity};w=${Math.ceil(capacity / refillPerSecond)}`,
+        ttlMs: Math.ceil(capacity / refillPerMs),
+        consume(state, now) {
+            const elapsed = state ? now - state.updatedAt : 0;
+            let tokens = state ? Math.min(capacity, state.tokens + elapsed * refillPerMs) : capacity;
+            const allowed = tokens >= 1;
+            if (allowed) tokens -= 1;
+            return {
+                state: { tokens, updatedAt: now },
+                decision: {
+                    allowed,
+                    limit: capacity,
+                    remaining: Math.floor(tokens),
+                    resetMs: Math.ceil((capacity - tokens) / refillPerMs),
+                    retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs)
+                }
+            };
+        }
+    };
+}
+
+// At most `limit` requests in any `windowMs`, approximated from the current and previous fixed windows
+export function slidingWindow(options: { limit: number; windowMs: number }): RateLimitStrategy<{ windowStart: number; current: number; previous: number }> {
+    const { limit, windowMs } = options;
+    return {
+        policy: `${limit};w=${Math.ceil(windowMs / 1000)}`,
+        ttlMs: 2 * windowMs,
+        consume(state, now) {
+            const windowStart = now - (now % windowMs);
+            let current = 0;
+            let previous = 0;
+            if (state && state.windowStart === windowStart) {
+                current = state.current;
+                previous = state.previous;
+            } else if (state && state.windowStart === windowStart - windowMs) {
+                previous = state.current;
+            }
+
+            // Share of the previous window that still overlaps the sliding window
+            const overlap = 1 - (now - windowStart) / windowMs;
+            const count = previous * overlap + current;
+            const allowed = count + 1 <= limit;
+            if (allowed) current += 1;
+            const used = previous * overlap + current;
+
+            // Next allowed request: once the previous window's share has faded enough.
+            // When the current window alone is full, it becomes the previous one first
+            let retryAfterMs = 0;
+            if (!allowed) {
+                const untilNextWindow = windowStart + windowMs - now;
+                retryAfterMs = current + 1 > limit
+                    ? untilNextWindow + Math.ceil(windowMs * (1 - (limit - 1) / current))
+                    : Math.min(untilNextWindow, Math.ceil((count + 1 - limit) / previous * windowMs));
+            }
+            return {
+                state: { windowStart, current, previous },
+                decision: {
+                    allowed,
+                    limit,
+                    remaining: Math.max(0, Math.floor(limit - used)),
+                    resetMs: current > 0 ? windowStart + 2 * windowMs - now : previous > 0 ? windowStart + windowMs - now : 0,
+                    retryAfterMs
+                }
+            };
+        }
+    };
+}
+
+/* KEYS
+"user" needs requireAuth first and falls back to the IP for anonymous
+calls; "apiKey" reads X-API-Key (hashed, so keys never sit in memory
+in clear) and also falls back to the IP*/
+export type RateLimitKey = "ip" | "apiKey" | "user" | ((req: Request, res: Response) => string | undefined);
+
+function clientIp(req: Request): string {
+    return `ip:${req.ip ?? req.socket.remoteAddress ?? "unknown"}`;
+}
+
+function keyOf(keyBy: RateLimitKey, req: Request, res: Response): string {
+    if (typeof keyBy === "function") return keyBy(req, res) ?? clientIp(req);
+    switch (keyBy) {
+        case "user": {
+            const userId = res.locals.auth?.userId;
+            return userId !== undefined ? `user:${userId}` : clientIp(req);
+        }
+        case "apiKey": {
+            const apiKey = req.get("X-API-Key");
+            return apiKey ? `key:${createHash("sha256").update(apiKey).digest("hex").slice(0, 32)}` : clientIp(req);
+        }
+        case "ip":
+            return clientIp(req);
+    }
+}
+
+/* MIDDLEWARE */
+export interface RateLimitOptions<S = unknown> {
+    name: string;                   // namespaces the keys, so two limiters never share counts
+    strategy: RateLimitStrategy<S>;
+    keyBy?: RateLimitKey;           // default "ip"
+}
+
+export interface RateLimiter extends RequestHandler {
+    readonly options: RateLimitOptions;
+}
+
+// S is the state the strategy keeps per key (e.g. the token bucket's { tokens, updatedAt })
+export function rateLimit<S>(options: RateLimitOptions<S>): RateLimiter {
+    const { name, strategy, keyBy = "ip" } = options;
+
+    const limiter = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const key = `${name}:${keyOf(keyBy, req, res)}`;
+        const decision = await store.update<S, RateLimitDecision>(key, strategy.ttlMs, state => {
+            const { state: next, decision } = strategy.consume(state, Date.now());
+            return { state: next, result: decision };
+        });
+
+        res.setHeader("RateLimit-Policy", strategy.policy);
+        res.setHeader("RateLimit-Limit", decision.limit);
+        res.setHeader("RateLimit-Remaining", decision.remaining);
+        res.setHeader("RateLimit-Reset", Math.ceil(decision.resetMs / 1000));
+        if (!decision.allowed) {
+            const retryAfter = Math.max(1, Math.ceil(decision.retryAfterMs / 1000));
+            res.setHeader("Retry-After", retryAfter);
+            next(new TooManyRequestsError(`Too many requests, retry in ${retryAfter} s`));
+            return;
+        }
+        next();
+    };
+    return Object.assign(limiter, { options });
+}
@@ -0,0 +1,54 @@
+import { logger } from './logger.ts';
+
+/* RETENTION PURGE
+Soft-deleted users (see users.ts) are hard-deleted once they have been
+deleted for longer than `retentionDays`. The job runs every
+`intervalSeconds`, never twice at the same time, and does not keep the
+process alive on its own; stop() (a shutdown hook) waits for a run in
+progress to finish*/
+export interface PurgeJobOptions {
+    retentionDays: number;
+    intervalSeconds: number;
+    // Hard-deletes what was deleted before `cutoff`, resolves how many were removed
+    purge: (cutoff: Date) => Promise<number>;
+}
+
+export interface PurgeJob {
+    runNow(): Promise<number>;
+    stop(): Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function startPurgeJob(options: PurgeJobOptions): PurgeJob {
+    const { retentionDays, intervalSeconds, purge } = options;
+    const log = logger.child({ job: "purge-deleted-users" });
+    let running: Promise<number> | undefined;
+
+    const runNow = (): Promise<number> => {
+        running ??= (async () => {
+            const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+            try {
+                const purged = await purge(cutoff);
+                if (purged > 0) log.info("purged deleted users", { purged, cutoff: cutoff.toISOString() });
+                return purged;
+            } finally {
+                running = undefined;
+            }
+        })();
+        return running;
+    };
+
+    const timer = setInterval(() => {
+        runNow().catch(err => log.error("purge failed", { err }));
+    }, intervalSeconds * 1000);
+    timer.unref();
+
+    return {
+        runNow,
+        async stop() {
+            clearInterval(timer);
+            await running?.catch(() => 0);
+        }
+    };
+}
@@ -0,0 +1,234 @@
+import {
+    getAllUsers, getUserById, createUser, updateUser, patchUser, deleteUser, searchUsers, getUserHistory, restoreUser,
+    importUsers, exportUsers, batchUsers, streamUserEvents, userListFields,
+    createUserSchema, publicUserSchema, searchScoreSchema
+} from './users.ts';
+import { login, refresh, logout, loginSchema, refreshSchema, tokenPairSchema } from './auth.ts';
+import { getLiveness, getReadiness, livenessStatusSchema, readinessReportSchema } from './health.ts';
+import { auditEntrySchema } from './audit.ts';
+import { importReportSchema, EXPORT_MEDIA_TYPES } from './userTransfer.ts';
+import { batchRequestSchema, batchReportSchema, MAX_BATCH_OPERATIONS } from './userBatch.ts';
+import { rateLimit, slidingWindow, tokenBucket } from './rateLimit.ts';
+import { filterOperators } from './listQuery.ts';
+import {
+    defineRoute, body, partialBody, objectSpec, listSpec, extendSpec, buildOpenApiDocument,
+    type ApiInfo, type QueryParamDoc, type RouteDefinition
+} from './openapi.ts';
+
+/* ROUTE TABLE
+Every JSON route of the API. server.js mounts them with registerRoutes()
+and the OpenAPI document (/openapi.json, openapi.json) is generated from
+this same list, so the docs cannot describe a route that does not exist.
+Order matters: /api/users/search, /export and /events must come before /api/users/:id*/
+const user = objectSpec("User", publicUserSchema);
+const tokenPair = objectSpec("TokenPair", tokenPairSchema);
+
+const includeDeleted: QueryParamDoc = {
+    name: "includeDeleted", type: "boolean", description: "true to include soft-deleted users (admins only)"
+};
+
+const listQuery: QueryParamDoc[] = [
+    { name: "page", type: "integer", description: "Page number (offset pagination), starting at 1" },
+    { name: "limit", type: "integer", description: "Items per page (1-100, default 20)" },
+    { name: "cursor", type: "string", description: "nextCursor of the previous page (cursor pagination)" },
+    { name: "sort", type: "string", description: "Comma-separated fields, '-' for descending, e.g. age,-name" },
+    // One filter per list field, e.g. age[gte]=25&email[contains]=example
+    ...Object.entries(userListFields).map(([field, kind]): QueryParamDoc => ({
+        name: field, type: kind, operators: filterOperators(kind),
+        description: `Filter on ${field}: ${field}[op]=value, several operators allowed; ${field}=value is short for ${field}[eq]=value`
+    }))
+];
+
+/* RATE LIMITS
+Per-route limits, on top of the global per-IP limit set in server.js*/
+export const RATE_LIMITS = {
+    // Password guessing: 10 attempts per minute per IP
+    login: rateLimit({ name: "login", keyBy: "ip", strategy: slidingWindow({ limit: 10, windowMs: 60_000 }) }),
+    // Bursts of 5 creations, then one every 12 s per user
+    createUser: rateLimit({ name: "create-user", keyBy: "user", strategy: tokenBucket({ capacity: 5, refillPerSecond: 1 / 12 }) }),
+    // Batches and imports create many users per request: one bucket for both,
+    // bursts of 10 requests, then one a minute per user
+    bulkWrite: rateLimit({ name: "bulk-write", keyBy: "user", strategy: tokenBucket({ capacity: 10, refillPerSecond: 1 / 60 }) })
+};
+
+const readinessReport = objectSpec("ReadinessReport", readinessReportSchema);
+const notReady = { 503: "Starting, draining or a check failed (the report is in `health`)" };
+
+export const routes: readonly RouteDefinition[] = [
+    defineRoute({
+        method: "get", path: "/health/live", tag: "system",
+        summary: "Liveness: the process is up",
+        response: { status: 200, description: "Alive", data: objectSpec("LivenessStatus", livenessStatusSchema) },
+        handler: getLiveness
+    }),
+    defineRoute({
+        method: "get", path: "/health/ready", tag: "system",
+        summary: "Readiness: the server can take traffic",
+        response: { status: 200, description: "Every check passed", data: readinessReport },
+        errors: notReady,
+        handler: getReadiness
+    }),
+    defineRoute({
+        method: "get", path: "/health", tag: "system",
+        summary: "Same as /health/ready (kept for existing monitors)",
+        response: { status: 200, description: "Every check passed", data: readinessReport },
+        errors: notReady,
+        handler: getReadiness
+    }),
+
+    defineRoute({
+        method: "post", path: "/api/auth/login", tag: "auth",
+        summary: "Exchange email + password for an access token and a refresh token",
+        rateLimit: RATE_LIMITS.login,
+        body: body("LoginInput", loginSchema),
+        response: { status: 200, description: "Token pair", data: tokenPair },
+        handler: login
+    }),
+    defineRoute({
+        method: "post", path: "/api/auth/refresh", tag: "auth",
+        summary: "Rotate a refresh token into a new token pair",
+        body: body("RefreshInput", refreshSchema),
+        response: { status: 200, description: "New token pair", data: tokenPair },
+        handler: refresh
+    }),
+    defineRoute({
+        method: "post", path: "/api/auth/logout", tag: "auth", auth: true,
+        summary: "Revoke the current access token (and the refresh token sent in the body)",
+        response: { status: 204, description: "Logged out" },
+        handler: logout
+    }),
+
+    defineRoute({
+        method: "get", path: "/api/users", tag: "users", auth: true, conditional: "read",
+        summary: "List the users the caller may read",
+        query: [...listQuery, includeDeleted],
+        response: { status: 200, description: "One page of users", data: listSpec(user) },
+        handler: getAllUsers
+    }),
+    defineRoute({
+        method: "get", path: "/api/users/search", tag: "users", auth: true,
+        summary: "Fuzzy search on name and email",
+        query: [
+            { name: "q", type: "string", required: true, description: "Search text (typos and prefixes allowed)" },
+            { name: "limit", type: "integer", description: "Maximum hits (1-100, default 20)" }
+        ],
+        response: {
+            status: 200, description: "Best matches first",
+            data: listSpec(extendSpec("UserSearchResult", user, searchScoreSchema))
+        },
+        handler: searchUsers
+    }),
+    defineRoute({
+        method: "get", path: "/api/users/export", tag: "users", auth: true,
+        summary: "Download the users the caller may read (streamed)",
+        query: [{ name: "format", type: "string", description: "csv, ndjson or json (default)" }],
+        response: {
+            status: 200, description: "One user per row / line / array item, without credentials",
+            mediaTypes: Object.values(EXPORT_MEDIA_TYPES)
+        },
+        handler: exportUsers
+    }),
+    defineRoute({
+        method: "get", path: "/api/users/events", tag: "users", auth: true,
+        summary: "Live user changes as Server-Sent Events (user.created, user.updated, user.deleted)",
+        response: {
+            status: 200, description: "An open event stream; send Last-Event-ID to resume after a disconnect",
+            mediaTypes: ["text/event-stream"]
+        },
+        errors: { 503: "The server is shutting down" },
+        handler: streamUserEvents
+    }),
+    defineRoute({
+        method: "get", path: "/api/users/:id", tag: "users", auth: true, conditional: "read",
+        summary: "Get a single user by id",
+        query: [includeDeleted],
+        response: { status: 200, description: "The user", data: user },
+        handler: getUserById
+    }),
+    defineRoute({
+        method: "post", path: "/api/users", tag: "users", auth: true,
+        summary: "Create a user",
+        rateLimit: RATE_LIMITS.createUser,
+        idempotent: true,
+        body: body("CreateUserInput", createUserSchema),
+        response: { status: 201, description: "The created user", data: user },
+        handler: createUser
+    }),
+    defineRoute({
+        method: "post", path: "/api/users/import", tag: "users", auth: true,
+        summary: "Create users from a CSV or NDJSON file",
+        rateLimit: RATE_LIMITS.bulkWrite,
+        upload: {
+            mediaTypes: ["text/csv", "application/x-ndjson"],
+            description: "CSV with a header row, or one JSON object per line; columns / fields as in CreateUserInput"
+        },
+        query: [{ name: "dryRun", type: "boolean", description: "true to check every row without creating anything" }],
+        response: {
+            status: 200, description: "Per-row report: created, skipped (email already in use) or failed (with reasons)",
+            data: objectSpec("ImportReport", importReportSchema)
+        },
+        errors: { 413: "Larger than importMaxBytes or more rows than importMaxRows" },
+        handler: importUsers
+    }),
+    defineRoute({
+        method: "post", path: "/api/users/batch", tag: "users", auth: true,
+        summary: `Run up to ${MAX_BATCH_OPERATIONS} create / update / delete operations in order`,
+        rateLimit: RATE_LIMITS.bulkWrite,
+        idempotent: true,
+        query: [{ name: "atomic", type: "boolean", description: "true to roll every operation back when one fails" }],
+        body: body("BatchRequest", batchRequestSchema),
+        response: {
+            status: 200, description: "One result per operation; with atomic=true a failure rolls back the others (424)",
+            data: objectSpec("BatchReport", batchReportSchema)
+        },
+        handler: batchUsers
+    }),
+    defineRoute({
+        method: "put", path: "/api/users/:id", tag: "users", auth: true, conditional: "write",
+        summary: "Replace a user",
+        body: body("CreateUserInput", createUserSchema),
+        response: { status: 200, description: "The updated user", data: user },
+        handler: updateUser
+    }),
+    defineRoute({
+        method: "patch", path: "/api/users/:id", tag: "users", auth: true, conditional: "write",
+        summary: "Update some fields of a user",
+        body: partialBody("PatchUserInput", createUserSchema),
+        response: { status: 200, description: "The updated user", data: user },
+        handler: patchUser
+    }),
+    defineRoute({
+        method: "delete", path: "/api/users/:id", tag: "users", auth: true, conditional: "write",
+        summary: "Delete a user (soft delete: restorable until the retention purge)",
+        response: { status: 204, description: "Deleted" },
+        handler: deleteUser
+    }),
+    defineRoute({
+        method: "post", path: "/api/users/:id/restore", tag: "users", auth: true,
+        summary: "Restore a deleted user",
+        errors: { 409: "The user is not deleted (`not_deleted`)" },
+        response: { status: 200, description: "The restored user", data: user },
+        handler: restoreUser
+    }),
+    defineRoute({
+        method: "get", path: "/api/users/:id/history", tag: "users", auth: true,
+        summary: "Audit trail of a user's changes, newest first",
+        query: [
+            { name: "page", type: "integer", description: "Page number, starting at 1" },
+            { name: "limit", type: "integer", description: "Entries per page (1-100, default 20)" }
+        ],
+        response: {
+            status: 200, description: "Creates, updates and deletes, with a field-level diff; still available after a delete",
+            data: listSpec(objectSpec("AuditEntry", auditEntrySchema))
+        },
+        handler: getUserHistory
+    })
+];
+
+export const API_INFO: ApiInfo = {
+    title: "TypeScript Fundamentals API",
+    version: "1.0.0",
+    description: "Users service of the typescriptFundamentals sandbox"
+};
+
+export const openApiDocument = buildOpenApiDocument(routes, API_INFO);
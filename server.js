@@ -1,18 +1,175 @@
 // Import required modules
 import express from 'express';
 import cors from 'cors';
-import { getAllUsers, getUserById, createUser } from './users.ts';
+import { seedUsers, seededAccounts, useUserRepository, countUsers, purgeDeletedUsers } from './users.ts';
+import { InMemoryUserRepository, JsonFileUserRepository } from './userRepository.ts';
+import { createIdGenerator } from './idGenerator.ts';
+import { errorHandler, notFoundHandler } from './errors.ts';
+import { assignRequestId } from './apiResponse.ts';
+import { configureAuth } from './auth.ts';
+import { InMemoryAuthStore, JsonFileAuthStore } from './authStore.ts';
+import { routes, openApiDocument } from './routes.ts';
+import { registerRoutes, serveOpenApi } from './openapi.ts';
+import { loadConfig, describeConfig, ConfigError, toBytes } from './config.ts';
+import { configureLogging, logger, requestLogger } from './logger.ts';
+import {
+  registerHealthCheck, setLifecycle, storeCheck, writableCheck, memoryCheck, eventLoopLagCheck
+} from './health.ts';
+import { metrics, metricsMiddleware, serveMetrics } from './metrics.ts';
+import { rateLimit, slidingWindow } from './rateLimit.ts';
+import { configureIdempotency, InMemoryIdempotencyStore, JsonFileIdempotencyStore } from './idempotency.ts';
+import { useAuditLog, InMemoryAuditLog, JsonLinesAuditLog } from './audit.ts';
+import { startPurgeJob } from './retention.ts';
+import { configureUserEvents, closeEventStreams } from './userEvents.ts';
+import { configureImport } from './userTransfer.ts';
+import { enableGracefulShutdown, onShutdown, onDrain, closeConnectionsWhenDraining } from './shutdown.ts';
 import { get } from 'http';
 
+/*  CONFIGURATION
+Defaults < profile < config.json < environment < CLI flags (see config.ts).
+An invalid setting stops the server before it binds the port*/
+let config;
+try {
+  config = loadConfig();
+} catch (err) {
+  if (!(err instanceof ConfigError)) throw err;
+  console.error(`❌ ${err.message}`);
+  process.exit(1);
+}
+
+/*  LOGGING
+JSON lines on stdout, filtered by logLevel; emails, passwords and tokens are redacted*/
+configureLogging({ level: config.logLevel });
+
 /*  APP INITIALIZATION */
 const app = express();
-const PORT = 3000;
+
+/*  RETENTION
+Users soft-deleted more than deletedRetentionDays ago are hard-deleted
+every purgeIntervalSeconds (purgeDeletedUsers uses whichever store is
+set up below). Its shutdown hook is registered before the stores' ones,
+so the job has stopped by the time they are flushed*/
+const purgeJob = startPurgeJob({
+  retentionDays: config.deletedRetentionDays,
+  intervalSeconds: config.purgeIntervalSeconds,
+  purge: purgeDeletedUsers
+});
+onShutdown('purge-job', () => purgeJob.stop());
+
+/*  STORAGE
+"json" persists users and refresh tokens to local files so they survive
+restarts, "memory" starts over every time.
+idMode picks the id format: counter (default), uuid or ulid*/
+// The mock users (known password) only seed development and test stores;
+// they have numeric ids, so they only make sense with counters
+const seed = config.seedUsers && config.idMode === 'counter' ? seedUsers : [];
+const ids = createIdGenerator(config.idMode);
+if (config.storage === 'json') {
+  const usersRepository = new JsonFileUserRepository(config.usersFile, seed, ids);
+  useUserRepository(usersRepository);
+  onShutdown('users-store', () => usersRepository.flush());
+} else {
+  useUserRepository(new InMemoryUserRepository(seed, ids));
+}
+
+// A store that still holds them (e.g. a data/ folder filled in development) is a known admin login
+if (config.profile === 'production') {
+  const seeded = await seededAccounts();
+  if (seeded.length > 0) {
+    // Not through the logger, which would redact the emails
+    console.error(`❌ Mock users still have the development password, change or delete them first: ${seeded.join(', ')}`);
+    process.exit(1);
+  }
+}
+
+/*  AUTHENTICATION
+authSecret (AUTH_SECRET) signs the access tokens*/
+if (config.authSecret === undefined) {
+  logger.warn('AUTH_SECRET is not set: using a random secret, tokens will not survive a restart');
+}
+const authStore = config.storage === 'json' ? new JsonFileAuthStore(config.authFile) : new InMemoryAuthStore();
+if (authStore instanceof JsonFileAuthStore) {
+  onShutdown('auth-store', () => authStore.flush());
+}
+configureAuth({
+  secret: config.authSecret,
+  store: authStore,
+  accessTokenTtl: config.accessTokenTtl,
+  refreshTokenTtl: config.refreshTokenTtl
+});
+
+/*  IDEMPOTENCY
+Responses to requests sent with an Idempotency-Key (POST /api/users)
+are kept for idempotencyTtl seconds, next to the other stores*/
+const idempotencyStore = config.storage === 'json'
+  ? new JsonFileIdempotencyStore(config.idempotencyFile)
+  : new InMemoryIdempotencyStore();
+if (idempotencyStore instanceof JsonFileIdempotencyStore) {
+  onShutdown('idempotency-store', () => idempotencyStore.flush());
+}
+configureIdempotency({ store: idempotencyStore, ttlSeconds: config.idempotencyTtl });
+
+/*  AUDIT LOG
+Every create / update / delete of a user is appended to auditFile
+(GET /api/users/:id/history reads it back)*/
+const auditLog = config.storage === 'json' ? new JsonLinesAuditLog(config.auditFile) : new InMemoryAuditLog();
+if (auditLog instanceof JsonLinesAuditLog) {
+  onShutdown('audit-log', () => auditLog.flush());
+}
+useAuditLog(auditLog);
+
+/*  USER EVENTS
+GET /api/users/events streams are ended as soon as draining starts,
+otherwise they would keep the server from closing*/
+configureUserEvents({ replaySize: config.eventsReplaySize, heartbeatSeconds: config.eventsHeartbeatSeconds });
+onDrain('event-streams', closeEventStreams);
+
+/*  IMPORTS
+POST /api/users/import streams its body past express.json(), so it gets
+its own size and row limits*/
+configureImport({ maxBytes: toBytes(config.importMaxBytes), maxRows: config.importMaxRows });
+
+/*  HEALTH CHECKS
+Run by /health/ready (see health.ts); any failure turns it into a 503*/
+registerHealthCheck('users-store', storeCheck(countUsers));
+if (config.storage === 'json') {
+  registerHealthCheck('storage-writable', writableCheck([config.usersFile, config.authFile, config.idempotencyFile, config.auditFile]));
+}
+registerHealthCheck('memory', memoryCheck(config.healthMaxRssMb));
+registerHealthCheck('event-loop', eventLoopLagCheck(config.healthMaxEventLoopLagMs));
+
+/*  METRICS
+Request count, latency and in-flight requests are recorded by
+metricsMiddleware; the store size is read on every scrape of /metrics*/
+metrics.gauge({
+  name: 'users_store_size',
+  help: 'Number of users in the store',
+  collect: async gauge => gauge.set({}, await countUsers())
+});
 
 /*  MIDDLEWARE 
-Enable CORS for all origins and Parse incoming JSON requests
+Tag each request with an id, log and measure it, enable CORS for the configured origins and Parse incoming JSON requests
 */
-app.use(cors());
-app.use(express.json());
+app.use(assignRequestId);
+app.use(requestLogger);
+app.use(metricsMiddleware);
+app.use(closeConnectionsWhenDraining);
+app.use(cors({
+  // "*" = any origin, otherwise an allowlist (an empty list disables CORS)
+  origin: config.corsOrigins.includes('*') ? '*' : [...config.corsOrigins],
+  exposedHeaders: [
+    'X-Request-Id', 'ETag', 'Retry-After', 'Idempotent-Replayed',
+    'RateLimit-Limit', 'RateLimit-Remaining', 'RateLimit-Reset', 'RateLimit-Policy'
+  ]
+}));
+app.use(express.json({ limit: config.bodyLimit }));
+
+/*  RATE LIMITING
+A global per-IP limit for every route; some routes (login, user
+creation) add a stricter one in routes.ts. 429 + Retry-After when exceeded*/
+if (config.rateLimitPerMinute > 0) {
+  app.use(rateLimit({ name: 'global', keyBy: 'ip', strategy: slidingWindow({ limit: config.rateLimitPerMinute, windowMs: 60_000 }) }));
+}
 
 /*ROUTES*/
 /**GET /
@@ -21,29 +178,31 @@ app.get('/', (req, res) => {
   res.send('🚀 Express server is running!');
 });
 
-/*GET /health
-Health check endpoint*/
-app.get('/health', (req, res) => {
-  res.json({
-    status: 'OK',
-    uptime: process.uptime(),
-    timestamp: new Date()
-  });
-});
-
-/* GET /api/users
-Returns all users (mock data)*/
-app.get('/api/users', getAllUsers);
-
-/* GET /api/users/:id
-Returns a single user by ID*/
-app.get('/api/users/:id', getUserById);
+/* API ROUTES
+Every JSON route (users, auth, health) is declared in routes.ts, which is
+also the source of the OpenAPI document served at /openapi.json and /docs*/
+registerRoutes(app, routes);
+serveOpenApi(app, openApiDocument);
+serveMetrics(app);
 
-/* POST /api/users
-Creates a new user*/
-app.post('/api/users', createUser);
+/*ERROR HANDLING
+Must come after every route: unknown routes get a JSON 404 and any
+thrown error is serialized by errorHandler (see errors.ts)*/
+app.use(notFoundHandler);
+app.use(errorHandler);
 
-/*SERVER START*/
-app.listen(PORT, () => {
-  console.log(`✅ Server running on http://localhost:${PORT}`);
+/*SERVER START
+Readiness stays "starting" until the users store has been loaded.
+SIGTERM / SIGINT drain the server and flush the stores (see shutdown.ts)*/
+const server = app.listen(config.port, config.host, async () => {
+  logger.info(`✅ Server running on http://localhost:${config.port}`, { profile: config.profile });
+  logger.debug('configuration', { config: describeConfig(config) });
+  try {
+    await countUsers();
+    setLifecycle('ready');
+    logger.info('ready');
+  } catch (err) {
+    logger.error('users store failed to load, staying unready', { err });
+  }
 });
+enableGracefulShutdown(server, { timeoutMs: config.shutdownTimeoutMs });
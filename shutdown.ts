@@ -0,0 +1,110 @@
+import type { Server } from 'node:http';
+import type { Request, Response, NextFunction } from 'express';
+import { getLifecycle, setLifecycle } from './health.ts';
+import { logger } from './logger.ts';
+
+/* GRACEFUL SHUTDOWN
+On SIGTERM / SIGINT:
+    1. readiness flips to "draining" (/health/ready answers 503)
+    2. drain hooks end long-lived responses (event streams); the server stops
+       accepting connections; keep-alive ones are closed once idle and
+       requests still arriving on open ones are answered with `Connection: close`
+    3. in-flight requests get up to `timeoutMs` to finish
+    4. shutdown hooks run (flush the stores...)
+    5. the process exits: 0 when everything drained and flushed, 1 otherwise
+A second signal skips the wait and exits with 1 right away*/
+export type ShutdownHook = () => Promise<void>;
+
+const hooks: { name: string; hook: ShutdownHook }[] = [];
+const drainHooks: { name: string; hook: () => void }[] = [];
+
+// Hooks run in registration order, after the last request has finished
+export function onShutdown(name: string, hook: ShutdownHook): void {
+    hooks.push({ name, hook });
+}
+
+// Runs as soon as draining starts, for responses that would never finish on their own
+export function onDrain(name: string, hook: () => void): void {
+    drainHooks.push({ name, hook });
+}
+
+// Tells keep-alive clients to reconnect elsewhere once draining has started
+export function closeConnectionsWhenDraining(req: Request, res: Response, next: NextFunction): void {
+    if (getLifecycle() === "draining") res.setHeader("Connection", "close");
+    next();
+}
+
+export interface GracefulShutdownOptions {
+    timeoutMs: number;
+    signals?: NodeJS.Signals[];
+    exit?: (code: number) => void;      // injectable for tests
+}
+
+// close() only closes the connections idle at that moment: a keep-alive one
+// whose request finishes later would stay open, so they are swept until the end
+const IDLE_SWEEP_MS = 100;
+
+function closeServer(server: Server, timeoutMs: number): Promise<boolean> {
+    return new Promise(resolve => {
+        const sweep = setInterval(() => server.closeIdleConnections(), IDLE_SWEEP_MS);
+        const timer = setTimeout(() => {
+            // Requests still running after the deadline are cut off
+            clearInterval(sweep);
+            server.closeAllConnections();
+            resolve(false);
+        }, timeoutMs);
+        server.close(() => {
+            clearInterval(sweep);
+            clearTimeout(timer);
+            resolve(true);
+        });
+        server.closeIdleConnections();
+    });
+}
+
+export function enableGracefulShutdown(server: Server, options: GracefulShutdownOptions): void {
+    const exit = options.exit ?? (code => process.exit(code));
+    let shuttingDown = false;
+
+    const shutdown = async (signal: NodeJS.Signals) => {
+        if (shuttingDown) {
+            logger.warn("second signal, exiting without waiting", { signal });
+            exit(1);
+            return;
+        }
+        shuttingDown = true;
+        setLifecycle("draining");
+        logger.info("shutting down", { signal, timeoutMs: options.timeoutMs });
+
+        let exitCode = 0;
+        const start = Date.now();
+        for (const { name, hook } of drainHooks) {
+            try {
+                hook();
+            } catch (err) {
+                logger.error("drain hook failed", { hook: name, err });
+                exitCode = 1;
+            }
+        }
+        if (!await closeServer(server, options.timeoutMs)) {
+            logger.error("requests still running after the shutdown timeout were aborted", { timeoutMs: options.timeoutMs });
+            exitCode = 1;
+        }
+
+        for (const { name, hook } of hooks) {
+            try {
+                await hook();
+            } catch (err) {
+                logger.error("shutdown hook failed", { hook: name, err });
+                exitCode = 1;
+            }
+        }
+
+        logger.info("shutdown complete", { exitCode, durationMs: Date.now() - start });
+        exit(exitCode);
+    };
+
+    for (const signal of options.signals ?? ["SIGTERM", "SIGINT"]) {
+        process.on(signal, () => void shutdown(signal));
+    }
+}
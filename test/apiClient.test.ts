@@ -0,0 +1,111 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { getEventListeners } from 'node:events';
+import { requestApi, ApiRequestError, AbortError, TimeoutError } from '../apiClient.ts';
+import { createUsersClient, type UsersClient } from '../usersClient.ts';
+import { startTestServer, login, type TestServer } from './testServer.ts';
+
+let server: TestServer;
+let client: UsersClient;
+
+before(async () => {
+    server = await startTestServer();
+    const token = await login(server.url);
+    client = createUsersClient({ baseUrl: server.url, token });
+});
+
+after(() => server.close());
+
+// A fetch that answers with `responses` in turn and counts its calls
+function scriptedFetch(responses: (() => Response)[]): typeof fetch & { calls: number } {
+    const fake = Object.assign(async () => {
+        const next = responses[Math.min(fake.calls, responses.length - 1)]!;
+        fake.calls++;
+        return next();
+    }, { calls: 0 });
+    return fake;
+}
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): () => Response {
+    return () => new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...headers } });
+}
+
+const unavailable = json(503, { status: "error", error: "Unavailable", code: "unavailable" }, { "Retry-After": "0" });
+const ok = json(200, { status: "success", data: { id: 1 }, meta: {} });
+
+/* AGAINST THE SERVER */
+test("users client creates, reads, patches and deletes a user", async () => {
+    const created = await client.create({ name: "Dana", email: "dana@example.com", age: 31 });
+    assert.equal(created.email, "dana@example.com");
+    assert.equal("passwordHash" in created, false);
+
+    assert.deepEqual(await client.getById(created.id), created);
+    assert.equal((await client.patch(created.id, { age: 32 })).age, 32);
+
+    await client.delete(created.id);
+    await assert.rejects(client.getById(created.id), (err: unknown) => err instanceof ApiRequestError && err.status === 404);
+});
+
+test("users client sends paging, sorting and filters", async () => {
+    const page = await client.getAll({ sort: "-age", limit: 2, filters: { "age[gte]": 25 } });
+    assert.deepEqual(page.data.map(u => u.name), ["Bob", "Alice"]);
+    assert.equal(page.pagination?.total, 3);
+});
+
+test("an error response becomes an ApiRequestError with its code", async () => {
+    const anonymous = createUsersClient({ baseUrl: server.url });
+    await assert.rejects(anonymous.getById(1), (err: unknown) =>
+        err instanceof ApiRequestError && err.status === 401 && err.code === "unauthorized");
+});
+
+/* RETRIES */
+test("GET is retried on 503 until it succeeds", async () => {
+    const fetch = scriptedFetch([unavailable, unavailable, ok]);
+    const response = await requestApi<{ id: number }>("http://api.test/users/1", { fetch });
+    assert.deepEqual(response.data, { id: 1 });
+    assert.equal(fetch.calls, 3);
+});
+
+test("POST is not retried by default", async () => {
+    const fetch = scriptedFetch([unavailable, ok]);
+    await assert.rejects(requestApi("http://api.test/users", { method: "POST", body: {}, fetch }), ApiRequestError);
+    assert.equal(fetch.calls, 1);
+});
+
+test("a retried DELETE that gets 404 counts as deleted", async () => {
+    const fetch = scriptedFetch([unavailable, json(404, { status: "error", error: "Not found", code: "not_found" })]);
+    const response = await requestApi("http://api.test/users/1", { method: "DELETE", fetch });
+    assert.equal(response.status, "success");
+    assert.equal(fetch.calls, 2);
+});
+
+test("a first DELETE that gets 404 still fails", async () => {
+    const fetch = scriptedFetch([json(404, { status: "error", error: "Not found", code: "not_found" })]);
+    await assert.rejects(requestApi("http://api.test/users/1", { method: "DELETE", fetch }),
+        (err: unknown) => err instanceof ApiRequestError && err.status === 404);
+});
+
+/* TIMEOUTS AND ABORTS */
+// Never answers; rejects like fetch does once the signal aborts
+const hangingFetch: typeof fetch = (_url, init) => new Promise((_resolve, reject) => {
+    init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+});
+
+test("an attempt without an answer times out", async () => {
+    await assert.rejects(requestApi("http://api.test/users", { fetch: hangingFetch, timeoutMs: 20, retries: 0 }), TimeoutError);
+});
+
+test("aborting during the backoff rejects with AbortError", async () => {
+    const controller = new AbortController();
+    const fetch = scriptedFetch([json(503, { status: "error", error: "Unavailable", code: "unavailable" }, { "Retry-After": "5" })]);
+    const request = requestApi("http://api.test/users", { fetch, signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+    await assert.rejects(request, AbortError);
+    assert.equal(fetch.calls, 1);
+});
+
+test("backoff does not leave abort listeners on the caller's signal", async () => {
+    const controller = new AbortController();
+    await requestApi("http://api.test/users/1", { fetch: scriptedFetch([unavailable, unavailable, ok]), signal: controller.signal });
+    assert.equal(getEventListeners(controller.signal, "abort").length, 0);
+});
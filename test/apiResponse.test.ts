@@ -0,0 +1,57 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PublicUser } from '../users.ts';
+import type { ErrorResponse, SuccessResponse } from '../apiResponse.ts';
+import { startTestServer, login, request, type TestServer } from './testServer.ts';
+
+let server: TestServer;
+let token: string;
+
+before(async () => {
+    server = await startTestServer();
+    token = await login(server.url);
+});
+
+after(() => server.close());
+
+function get(path: string, headers: Record<string, string> = {}): Promise<Response> {
+    return request(server.url, token, "GET", path, undefined, headers);
+}
+
+test("success and error bodies carry the request id of the X-Request-Id header", async () => {
+    const ok = await get("/api/users/1", { "X-Request-Id": "trace-42" });
+    assert.equal(ok.headers.get("X-Request-Id"), "trace-42");
+    const body = await ok.json() as SuccessResponse<PublicUser>;
+    assert.equal(body.status, "success");
+    assert.equal(body.data.name, "Alice");
+    assert.deepEqual(body.meta, { requestId: "trace-42" });
+
+    const missing = await get("/api/users/99", { "X-Request-Id": "trace-43" });
+    const error = await missing.json() as ErrorResponse;
+    assert.equal(error.status, "error");
+    assert.equal(error.meta.requestId, "trace-43");
+});
+
+test("a request id that is not a plain token is replaced", async () => {
+    const response = await get("/api/users/1", { "X-Request-Id": "bad id\twith spaces" });
+    const id = response.headers.get("X-Request-Id");
+    assert.match(id ?? "", /^[0-9a-f-]{36}$/);
+    assert.equal((await response.json() as SuccessResponse<PublicUser>).meta.requestId, id);
+});
+
+test("lists carry their pagination and links in meta", async () => {
+    const body = await (await get("/api/users?limit=1&page=2&sort=age")).json() as SuccessResponse<PublicUser[]>;
+    assert.deepEqual(body.data.map(u => u.name), ["Alice"]);
+    assert.deepEqual(body.meta.pagination, {
+        total: 3,
+        limit: 1,
+        page: 2,
+        nextCursor: "WzI4LDFd",
+        links: {
+            self: "/api/users?limit=1&page=2&sort=age",
+            first: "/api/users?limit=1&sort=age",
+            next: "/api/users?limit=1&sort=age&page=3",
+            prev: "/api/users?limit=1&sort=age&page=1"
+        }
+    });
+});
@@ -0,0 +1,95 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { diffUsers, JsonLinesAuditLog, type AuditEntry } from '../audit.ts';
+import type { UserData } from '../users.ts';
+import { startTestServer, login, request, type TestServer } from './testServer.ts';
+
+const charlie: UserData = { id: 3, name: "Charlie", email: "charlie@example.com", age: 25, passwordHash: "old-hash", role: "employee" };
+
+test("the diff lists the changed fields only, never the id or a password hash", () => {
+    assert.deepEqual(diffUsers(charlie, { ...charlie, age: 26, passwordHash: "new-hash" }), [
+        { field: "age", before: 25, after: 26 },
+        { field: "passwordHash", before: "[REDACTED]", after: "[REDACTED]" }
+    ]);
+    assert.deepEqual(diffUsers(charlie, { ...charlie }), []);
+
+    // A create has no "before", a removed field no "after"
+    const created = diffUsers(undefined, charlie);
+    assert.equal(created.some(change => change.field === "id"), false);
+    assert.deepEqual(created.find(change => change.field === "name"), { field: "name", after: "Charlie" });
+    assert.deepEqual(diffUsers({ ...charlie, deletedAt: "2026-01-01T00:00:00.000Z" }, charlie), [
+        { field: "deletedAt", before: "2026-01-01T00:00:00.000Z" }
+    ]);
+});
+
+test("the JSON Lines log appends one line per entry, in order, and reads them back by user", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "audit-"));
+    try {
+        const log = new JsonLinesAuditLog(join(dir, "nested", "audit.jsonl"));
+        assert.deepEqual(await log.findByUser(3), []);
+
+        const entry = (id: string, userId: number): AuditEntry => ({ id, at: new Date().toISOString(), action: "update", userId, changes: [] });
+        // Not awaited one by one: the appends must still land in call order
+        await Promise.all([log.append(entry("a", 3)), log.append(entry("b", 2)), log.append(entry("c", 3))]);
+
+        assert.deepEqual((await log.findByUser(3)).map(e => e.id), ["a", "c"]);
+        const lines = (await readFile(log.filePath, "utf8")).trimEnd().split("\n");
+        assert.deepEqual(lines.map(line => (JSON.parse(line) as AuditEntry).id), ["a", "b", "c"]);
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+});
+
+/* GET /api/users/:id/history */
+let server: TestServer;
+let admin: string;
+
+before(async () => {
+    server = await startTestServer();
+    admin = await login(server.url);
+});
+
+after(() => server.close());
+
+async function history(token: string, id: number | string, query = ""): Promise<{ status: number; entries: AuditEntry[]; total: number | undefined }> {
+    const response = await request(server.url, token, "GET", `/api/users/${id}/history${query}`);
+    const body = await response.json() as { data?: AuditEntry[]; meta: { pagination?: { total: number } } };
+    return { status: response.status, entries: body.data ?? [], total: body.meta.pagination?.total };
+}
+
+test("every write is recorded with its actor and request id, newest first, and outlives the delete", async () => {
+    const created = await request(server.url, admin, "POST", "/api/users", { name: "Dana", email: "dana@example.com", age: 40, password: "dana-secret" });
+    assert.equal(created.status, 201);
+    const { id } = (await created.json() as { data: { id: number } }).data;
+
+    const patched = await request(server.url, admin, "PATCH", `/api/users/${id}`, { age: 41 });
+    assert.equal(patched.status, 200);
+    assert.equal((await request(server.url, admin, "DELETE", `/api/users/${id}`)).status, 204);
+
+    const { status, entries, total } = await history(admin, id);
+    assert.equal(status, 200);
+    assert.equal(total, 3);
+    assert.deepEqual(entries.map(entry => entry.action), ["delete", "update", "create"]);
+    assert.deepEqual(entries.map(entry => entry.actor), Array(3).fill({ id: 1, role: "admin" }));
+
+    const [deleted, updated, create] = entries as [AuditEntry, AuditEntry, AuditEntry];
+    assert.equal(updated.requestId, patched.headers.get("X-Request-Id"));
+    assert.deepEqual(updated.changes, [{ field: "age", before: 40, after: 41 }]);
+    assert.deepEqual(deleted.changes.map(change => change.field), ["deletedAt"]);
+    assert.deepEqual(create.changes.find(change => change.field === "passwordHash"), { field: "passwordHash", after: "[REDACTED]" });
+    assert.ok(create.id < updated.id && updated.id < deleted.id, "ULIDs sort by time");
+
+    const page = await history(admin, id, "?limit=1&page=2");
+    assert.deepEqual(page.entries.map(entry => entry.action), ["update"]);
+});
+
+test("only admins and the user's managers read the history", async () => {
+    await request(server.url, admin, "PATCH", "/api/users/3", { age: 30 });
+    assert.equal((await history(await login(server.url, "bob@example.com"), 3)).status, 200);
+    assert.equal((await history(await login(server.url, "charlie@example.com"), 3)).status, 403);
+    assert.equal((await history(admin, 999)).status, 404);
+    assert.equal((await history(admin, 3, "?limit=0")).status, 400);
+});
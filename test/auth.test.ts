@@ -0,0 +1,133 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { signJwt, verifyJwt } from '../jwt.ts';
+import { JsonFileAuthStore } from '../authStore.ts';
+import type { TokenPair } from '../auth.ts';
+import type { SuccessResponse } from '../apiResponse.ts';
+import { SEED_PASSWORD, seededAccounts } from '../users.ts';
+import { startTestServer, request, type TestServer } from './testServer.ts';
+
+let server: TestServer;
+
+before(async () => {
+    server = await startTestServer();
+});
+
+after(() => server.close());
+
+function post(path: string, body: unknown, token?: string): Promise<Response> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (token) headers.Authorization = `Bearer ${token}`;
+    return fetch(`${server.url}${path}`, { method: "POST", headers, body: JSON.stringify(body) });
+}
+
+async function tokens(email = "bob@example.com"): Promise<TokenPair> {
+    const response = await post("/api/auth/login", { email, password: SEED_PASSWORD });
+    assert.equal(response.status, 200);
+    return (await response.json() as SuccessResponse<TokenPair>).data;
+}
+
+function getMe(token: string): Promise<Response> {
+    return fetch(`${server.url}/api/users/2`, { headers: { Authorization: `Bearer ${token}` } });
+}
+
+/* JWT */
+test("a signed token verifies until it expires", () => {
+    const payload = { sub: "1", jti: "a", iat: 1000, exp: 2000 };
+    const token = signJwt(payload, "secret");
+    assert.deepEqual(verifyJwt(token, "secret", 1_999_000), { valid: true, payload });
+    assert.deepEqual(verifyJwt(token, "secret", 2_000_000), { valid: false, reason: "expired" });
+});
+
+test("a token with another secret, a changed payload or another algorithm is rejected", () => {
+    const token = signJwt({ sub: "1", jti: "a", iat: 0, exp: 2 ** 31 }, "secret");
+    const [header, payload, signature] = token.split(".");
+    const forged = Buffer.from(JSON.stringify({ sub: "2", jti: "a", iat: 0, exp: 2 ** 31 })).toString("base64url");
+    const otherAlg = Buffer.from(JSON.stringify({ alg: "HS512", typ: "JWT" })).toString("base64url");
+    const otherAlgSignature = createHmac("sha256", "secret").update(`${otherAlg}.${payload}`).digest("base64url");
+
+    assert.equal(verifyJwt(token, "other").valid, false);
+    assert.deepEqual(verifyJwt(`${header}.${forged}.${signature}`, "secret"), { valid: false, reason: "bad_signature" });
+    assert.deepEqual(verifyJwt(`${otherAlg}.${payload}.${otherAlgSignature}`, "secret"), { valid: false, reason: "malformed" });
+    assert.deepEqual(verifyJwt("abc", "secret"), { valid: false, reason: "malformed" });
+});
+
+/* LOGIN AND PROTECTED ROUTES */
+test("a wrong password and an unknown email get the same 401", async () => {
+    const wrong = await post("/api/auth/login", { email: "bob@example.com", password: "nope" });
+    const unknown = await post("/api/auth/login", { email: "nobody@example.com", password: "nope" });
+    assert.equal(wrong.status, 401);
+    assert.deepEqual((await wrong.json() as { error: string }).error, (await unknown.json() as { error: string }).error);
+});
+
+test("protected routes need a valid access token", async () => {
+    const anonymous = await fetch(`${server.url}/api/users/2`);
+    assert.equal(anonymous.status, 401);
+    assert.equal(anonymous.headers.get("WWW-Authenticate"), 'Bearer realm="api"');
+
+    const { accessToken, refreshToken } = await tokens();
+    assert.equal((await getMe(accessToken)).status, 200);
+    // A refresh token is not an access token
+    assert.equal((await getMe(refreshToken)).status, 401);
+});
+
+test("logout revokes the access token and its refresh token", async () => {
+    const { accessToken, refreshToken } = await tokens();
+    assert.equal((await post("/api/auth/logout", { refreshToken }, accessToken)).status, 204);
+    assert.equal((await getMe(accessToken)).status, 401);
+    assert.equal((await post("/api/auth/refresh", { refreshToken })).status, 401);
+});
+
+/* REFRESH ROTATION */
+test("refresh returns a new pair and spends the old refresh token", async () => {
+    const first = await tokens();
+    const rotated = await post("/api/auth/refresh", { refreshToken: first.refreshToken });
+    assert.equal(rotated.status, 200);
+    const second = (await rotated.json() as SuccessResponse<TokenPair>).data;
+    assert.notEqual(second.refreshToken, first.refreshToken);
+    assert.equal((await getMe(second.accessToken)).status, 200);
+});
+
+test("reusing a spent refresh token revokes the whole family", async () => {
+    const first = await tokens();
+    const second = (await (await post("/api/auth/refresh", { refreshToken: first.refreshToken })).json() as SuccessResponse<TokenPair>).data;
+
+    assert.equal((await post("/api/auth/refresh", { refreshToken: first.refreshToken })).status, 401);
+    // The token issued by the legitimate rotation is gone too
+    assert.equal((await post("/api/auth/refresh", { refreshToken: second.refreshToken })).status, 401);
+});
+
+test("two concurrent refreshes with the same token: only one gets a pair", async () => {
+    const { refreshToken } = await tokens();
+    const statuses = await Promise.all([1, 2, 3].map(async () => (await post("/api/auth/refresh", { refreshToken })).status));
+    assert.deepEqual(statuses.sort(), [200, 401, 401]);
+});
+
+test("the JSON file store spends a refresh token once, even before it is loaded", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "auth-store-"));
+    try {
+        const store = new JsonFileAuthStore(join(dir, "auth.json"));
+        await store.saveRefreshToken({ tokenHash: "h", userId: 1, familyId: "f", expiresAt: Date.now() + 60_000 });
+        await store.flush();
+
+        const reopened = new JsonFileAuthStore(join(dir, "auth.json"));
+        const [a, b] = await Promise.all([reopened.consumeRefreshToken("h", 1), reopened.consumeRefreshToken("h", 2)]);
+        assert.equal(a?.usedAt, undefined);
+        assert.equal(b?.usedAt, 1);
+    } finally {
+        await rm(dir, { recursive: true });
+    }
+});
+
+/* SEED ACCOUNTS */
+test("the mock users are reported until their development password is changed", async () => {
+    assert.deepEqual(await seededAccounts(), ["alice@example.com", "bob@example.com", "charlie@example.com"]);
+    const admin = await tokens("alice@example.com");
+    const changed = await request(server.url, admin.accessToken, "PATCH", "/api/users/3", { password: "a-new-password" });
+    assert.equal(changed.status, 200);
+    assert.deepEqual(await seededAccounts(), ["alice@example.com", "bob@example.com"]);
+});
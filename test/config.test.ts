@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadConfig, describeConfig, toBytes, ConfigError, DEFAULTS, type LoadConfigOptions } from '../config.ts';
+
+const NO_FILE = join(tmpdir(), "no-such-config.json");
+
+function load(options: LoadConfigOptions = {}) {
+    return loadConfig({ argv: [], env: {}, defaultConfigFile: NO_FILE, ...options });
+}
+
+function issuesOf(options: LoadConfigOptions): string[] {
+    try {
+        load(options);
+    } catch (err) {
+        if (err instanceof ConfigError) return err.issues;
+        throw err;
+    }
+    assert.fail("expected a ConfigError");
+}
+
+test("defaults apply when nothing is set", () => {
+    const config = load();
+    assert.equal(config.profile, "development");
+    assert.equal(config.port, DEFAULTS.port);
+    assert.equal(config.logLevel, "debug");    // development profile
+});
+
+test("file < file profile < environment < CLI flags", () => {
+    const dir = mkdtempSync(join(tmpdir(), "config-"));
+    try {
+        const file = join(dir, "config.json");
+        writeFileSync(file, JSON.stringify({
+            port: 4001, host: "file-host", logLevel: "info", bodyLimit: "2mb",
+            profiles: { test: { port: 4002, host: "profile-host" } }
+        }));
+        const config = load({
+            argv: ["--config", file, "--profile", "test", "--port", "4004"],
+            env: { PORT: "4003", HOST: "env-host" }
+        });
+        assert.equal(config.profile, "test");
+        assert.equal(config.port, 4004);
+        assert.equal(config.host, "env-host");
+        assert.equal(config.logLevel, "info");
+        assert.equal(config.bodyLimit, "2mb");
+        assert.equal(config.storage, "memory");    // test profile default
+    } finally {
+        rmSync(dir, { recursive: true });
+    }
+});
+
+test("every invalid setting is reported at once, with where it came from", () => {
+    assert.deepEqual(issuesOf({ env: { PORT: "http", STORAGE: "redis" }, argv: ["--body-limit", "lots"] }), [
+        "PORT must be an integer between 0 and 65535",
+        "STORAGE must be one of: json, memory",
+        '--body-limit must be a size such as "100kb" or "1mb"'
+    ]);
+    assert.equal(issuesOf({ argv: ["--config", NO_FILE] })[0], `Config file ${NO_FILE} does not exist`);
+});
+
+test("numbers are plain decimal integers", () => {
+    for (const PORT of ["0x10", "1e3", " 80", "8.0"]) {
+        assert.deepEqual(issuesOf({ env: { PORT } }), ["PORT must be an integer between 0 and 65535"], PORT);
+    }
+    assert.equal(load({ env: { PORT: "0" } }).port, 0);
+});
+
+test("a config file with settings that do not exist is refused, inherited names included", () => {
+    const dir = mkdtempSync(join(tmpdir(), "config-"));
+    try {
+        const file = join(dir, "config.json");
+        writeFileSync(file, JSON.stringify({ toString: 1, prot: 80, profiles: { test: { constructor: 1 } } }));
+        assert.deepEqual(issuesOf({ argv: ["--config", file] }), [
+            `${file}: unknown setting "toString"`,
+            `${file}: unknown setting "prot"`,
+            `${file} profiles.test: unknown setting "constructor"`
+        ]);
+    } finally {
+        rmSync(dir, { recursive: true });
+    }
+});
+
+test("production needs a secret and explicit CORS origins, and never seeds the mock users", () => {
+    assert.deepEqual(issuesOf({ env: { NODE_ENV: "production", CORS_ORIGINS: "*", SEED_USERS: "true" } }), [
+        "AUTH_SECRET is required in production (tokens must survive restarts)",
+        'corsOrigins cannot be "*" in production; list the allowed origins',
+        "seedUsers cannot be on in production (the mock users share a known password)"
+    ]);
+    const config = load({ env: { NODE_ENV: "production", AUTH_SECRET: "a-long-enough-secret", CORS_ORIGINS: "https://app.example.com" } });
+    assert.deepEqual(config.corsOrigins, ["https://app.example.com"]);
+    assert.equal(config.seedUsers, false);
+    assert.equal(describeConfig(config).authSecret, "********");
+});
+
+test("the mock users seed development and test stores unless turned off", () => {
+    assert.equal(load().seedUsers, true);
+    assert.equal(load({ env: { NODE_ENV: "test" } }).seedUsers, true);
+    assert.equal(load({ argv: ["--seed-users", "false"] }).seedUsers, false);
+    assert.deepEqual(issuesOf({ env: { SEED_USERS: "yes" } }), ["SEED_USERS must be true or false"]);
+});
+
+test("sizes convert to bytes", () => {
+    assert.equal(toBytes("512"), 512);
+    assert.equal(toBytes("100kb"), 100 * 1024);
+    assert.equal(toBytes("10mb"), 10 * 1024 * 1024);
+});
@@ -0,0 +1,74 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { errorHandler, ConflictError } from '../errors.ts';
+import { configureLogging } from '../logger.ts';
+import { startTestServer, login, type TestServer } from './testServer.ts';
+
+let server: TestServer;
+let token: string;
+const logged: string[] = [];
+
+before(async () => {
+    configureLogging({ write: line => logged.push(line) });
+    server = await startTestServer();
+    token = await login(server.url);
+});
+
+after(() => server.close());
+
+async function post(path: string, body: string): Promise<{ status: number; body: Record<string, unknown> }> {
+    const response = await fetch(`${server.url}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+        body
+    });
+    return { status: response.status, body: await response.json() as Record<string, unknown> };
+}
+
+test("an unknown route is a JSON 404", async () => {
+    const response = await fetch(`${server.url}/api/nope`);
+    assert.equal(response.status, 404);
+    const { meta, ...body } = await response.json() as Record<string, unknown>;
+    assert.deepEqual(body, { status: "error", error: "Route GET /api/nope not found", code: "not_found" });
+});
+
+test("malformed JSON is a 400 with the body-parser error type as code", async () => {
+    const { status, body } = await post("/api/users", "{ not json");
+    assert.equal(status, 400);
+    assert.equal(body.code, "entity_parse_failed");
+});
+
+test("an invalid body is a 400 listing every problem", async () => {
+    const { status, body } = await post("/api/users", JSON.stringify({ name: "", age: "old" }));
+    assert.equal(status, 400);
+    assert.equal(body.code, "validation_failed");
+    assert.deepEqual((body.details as { field: string }[]).map(d => d.field), ["name", "email", "age"]);
+});
+
+test("HttpErrors keep their status and code; anything else is a 500 that hides its message", async () => {
+    const app = express();
+    app.get("/conflict", () => { throw new ConflictError("Already there", "duplicate"); });
+    app.get("/bug", () => { throw new Error("secret detail"); });
+    app.use(errorHandler);
+    const listener = app.listen(0, "127.0.0.1");
+    await once(listener, "listening");
+    const base = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+    try {
+        const conflict = await fetch(`${base}/conflict`);
+        assert.equal(conflict.status, 409);
+        assert.equal((await conflict.json() as { code: string }).code, "duplicate");
+
+        const bug = await fetch(`${base}/bug`);
+        assert.equal(bug.status, 500);
+        const text = await bug.text();
+        assert.equal(text.includes("secret detail"), false);
+        assert.equal((JSON.parse(text) as { code: string }).code, "internal_error");
+        assert.ok(logged.some(line => line.includes('"msg":"unhandled error"') && line.includes("secret detail")));
+    } finally {
+        listener.closeAllConnections();
+        listener.close();
+    }
+});
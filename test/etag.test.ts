@@ -0,0 +1,58 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { canonicalJson, strongEtag } from '../etag.ts';
+import { startTestServer, login, request, type TestServer } from './testServer.ts';
+
+let server: TestServer;
+let token: string;
+
+before(async () => {
+    server = await startTestServer();
+    token = await login(server.url);
+});
+
+after(() => server.close());
+
+test("the ETag does not depend on key order", () => {
+    assert.equal(canonicalJson({ b: [1, { d: 1, c: 2 }], a: null }), '{"a":null,"b":[1,{"c":2,"d":1}]}');
+    assert.equal(strongEtag({ a: 1, b: 2 }), strongEtag({ b: 2, a: 1 }));
+    assert.notEqual(strongEtag({ a: 1 }), strongEtag({ a: 2 }));
+    assert.match(strongEtag({}), /^"[^"]+"$/);
+});
+
+test("If-None-Match with the current ETag is a 304, on a user and on the list", async () => {
+    for (const path of ["/api/users/3", "/api/users?sort=age"]) {
+        const first = await request(server.url, token, "GET", path);
+        const etag = first.headers.get("ETag");
+        assert.match(etag ?? "", /^"/, path);
+        // fetch() adds `Cache-Control: no-cache` to conditional requests, which Express
+        // takes as "do not answer from cache"; a browser revalidating its copy does not
+        const again = await request(server.url, token, "GET", path, undefined, { "If-None-Match": etag!, "Cache-Control": "max-age=0" });
+        assert.equal(again.status, 304, path);
+    }
+});
+
+test("If-Match guards writes against lost updates", async () => {
+    const etag = (await request(server.url, token, "GET", "/api/users/3")).headers.get("ETag")!;
+
+    const first = await request(server.url, token, "PATCH", "/api/users/3", { age: 26 }, { "If-Match": etag });
+    assert.equal(first.status, 200);
+    const newEtag = first.headers.get("ETag");
+    assert.notEqual(newEtag, etag);
+
+    // A second writer that read the same version loses
+    const stale = await request(server.url, token, "PATCH", "/api/users/3", { age: 27 }, { "If-Match": etag });
+    assert.equal(stale.status, 412);
+    assert.equal((await stale.json() as { code: string }).code, "precondition_failed");
+
+    assert.equal((await request(server.url, token, "DELETE", "/api/users/3", undefined, { "If-Match": etag })).status, 412);
+    assert.equal((await request(server.url, token, "PATCH", "/api/users/3", { age: 28 }, { "If-Match": "*" })).status, 200);
+});
+
+test("a changed user gets a new ETag, so a cached copy is refetched", async () => {
+    const etag = (await request(server.url, token, "GET", "/api/users/2")).headers.get("ETag")!;
+    await request(server.url, token, "PATCH", "/api/users/2", { age: 35 });
+    const fresh = await request(server.url, token, "GET", "/api/users/2", undefined, { "If-None-Match": etag });
+    assert.equal(fresh.status, 200);
+    assert.equal((await fresh.json() as { data: { age: number } }).data.age, 35);
+});
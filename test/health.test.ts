@@ -0,0 +1,76 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { registerHealthCheck, runHealthChecks, setLifecycle, memoryCheck, type ReadinessReport } from '../health.ts';
+import type { ApiResponse, ErrorResponse, SuccessResponse } from '../apiResponse.ts';
+import { startTestServer, type TestServer } from './testServer.ts';
+
+let server: TestServer;
+let storeBroken = false;
+let storeHangs = false;
+
+before(async () => {
+    registerHealthCheck("store", async () => {
+        if (storeHangs) return new Promise<never>(() => {});
+        if (storeBroken) throw new Error("users file is corrupt");
+        return "3 users";
+    });
+    server = await startTestServer();
+});
+
+after(() => server.close());
+
+async function probe(path: string): Promise<{ status: number; body: ApiResponse<ReadinessReport> }> {
+    const response = await fetch(`${server.url}${path}`);
+    return { status: response.status, body: await response.json() as ApiResponse<ReadinessReport> };
+}
+
+test("readiness fails while starting and draining; liveness does not", async () => {
+    for (const state of ["starting", "draining"] as const) {
+        setLifecycle(state);
+        const ready = await probe("/health/ready");
+        assert.equal(ready.status, 503);
+        assert.equal((ready.body as ErrorResponse).health?.status, state);
+        assert.equal((await probe("/health/live")).status, 200);
+    }
+});
+
+test("ready once started, with every check's result", async () => {
+    setLifecycle("ready");
+    const { status, body } = await probe("/health");
+    assert.equal(status, 200);
+    const check = (body as SuccessResponse<ReadinessReport>).data.checks[0];
+    assert.equal(check?.name, "store");
+    assert.equal(check?.status, "pass");
+    assert.equal(check?.message, "3 users");
+});
+
+test("a failing check turns readiness into a 503 that says which one", async () => {
+    setLifecycle("ready");
+    storeBroken = true;
+    try {
+        const { status, body } = await probe("/health/ready");
+        assert.equal(status, 503);
+        const report = (body as ErrorResponse).health;
+        assert.equal(report?.status, "failing");
+        assert.deepEqual(report?.checks.map(c => [c.name, c.status, c.message]), [["store", "fail", "users file is corrupt"]]);
+    } finally {
+        storeBroken = false;
+    }
+});
+
+test("a check that never answers fails after its timeout", async t => {
+    t.mock.timers.enable({ apis: ["setTimeout"] });
+    storeHangs = true;
+    try {
+        const results = runHealthChecks();
+        t.mock.timers.tick(2_000);
+        assert.deepEqual((await results).map(r => [r.status, r.message]), [["fail", "Timed out after 2000 ms"]]);
+    } finally {
+        storeHangs = false;
+    }
+});
+
+test("the memory check compares the RSS with its limit", async () => {
+    await assert.rejects(memoryCheck(1)(), /is over 1 MB/);
+    assert.match(await memoryCheck(1024 * 1024)() ?? "", /^rss \d+ MB$/);
+});
@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CounterIdGenerator, UlidIdGenerator, UuidIdGenerator, createIdGenerator } from '../idGenerator.ts';
+import { InMemoryUserRepository } from '../userRepository.ts';
+import { seedUsers } from '../users.ts';
+
+const CROCKFORD = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+
+function decodeTime(ulid: string): number {
+    return [...ulid.slice(0, 10)].reduce((time, char) => time * 32 + CROCKFORD.indexOf(char), 0);
+}
+
+/* COUNTER */
+test("counter ids only move forward", () => {
+    const ids = new CounterIdGenerator();
+    ids.advanceTo(7);
+    ids.advanceTo(3);
+    assert.equal(ids.next(), 8);
+    assert.equal(ids.lastIssued(), 8);
+});
+
+test("a deleted user's id is not handed out again", async () => {
+    const repo = new InMemoryUserRepository(seedUsers, createIdGenerator("counter"));
+    assert.equal(await repo.delete(3), true);
+    const created = await repo.create({ name: "Dana", email: "dana@example.com", age: 31, role: "employee" });
+    assert.equal(created.id, 4);
+});
+
+test("counter parse accepts positive safe integers only", () => {
+    const ids = new CounterIdGenerator();
+    assert.equal(ids.parse("42"), 42);
+    for (const raw of ["0", "-1", "01", "1.5", "abc", "99999999999999999999"]) {
+        assert.equal(ids.parse(raw), undefined, raw);
+    }
+});
+
+/* UUID */
+test("uuid parse normalizes case and rejects other strings", () => {
+    const ids = new UuidIdGenerator();
+    const id = ids.next();
+    assert.equal(ids.parse(id.toUpperCase()), id);
+    assert.equal(ids.parse("1"), undefined);
+});
+
+/* ULID */
+test("a ulid starts with its creation time", () => {
+    const before = Date.now();
+    const id = new UlidIdGenerator().next();
+    assert.match(id, /^[0-9A-HJKMNP-TV-Z]{26}$/);
+    assert.ok(decodeTime(id) >= before && decodeTime(id) <= Date.now());
+});
+
+test("ulids created in the same millisecond still sort in creation order", t => {
+    t.mock.method(Date, "now", () => 1_700_000_000_000);
+    const ids = new UlidIdGenerator();
+    const created = Array.from({ length: 1000 }, () => ids.next());
+    assert.equal(new Set(created).size, created.length);
+    assert.deepEqual([...created].sort(), created);
+    assert.ok(created.every(id => decodeTime(id) === 1_700_000_000_000));
+});
+
+test("ulid parse is case-insensitive", () => {
+    const ids = new UlidIdGenerator();
+    const id = ids.next();
+    assert.equal(ids.parse(id.toLowerCase()), id);
+    assert.equal(ids.parse("8ZZZZZZZZZZZZZZZZZZZZZZZZZ"), undefined);   // past the 48-bit time range
+});
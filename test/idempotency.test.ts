@@ -0,0 +1,164 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { once } from 'node:events';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { idempotent, JsonFileIdempotencyStore } from '../idempotency.ts';
+import { errorHandler } from '../errors.ts';
+import { sendSuccess } from '../apiResponse.ts';
+import { startTestServer, login, request } from './testServer.ts';
+
+/* MIDDLEWARE
+POST /things runs its handler once per key; ?delay= keeps it busy, ?fail= answers with that status*/
+let app: Server;
+let base: string;
+let runs = 0;
+
+before(async () => {
+    const things = express();
+    things.use(express.json());
+    things.post("/things", idempotent, async (req, res) => {
+        runs++;
+        await new Promise(resolve => setTimeout(resolve, Number(req.query.delay ?? 0)));
+        if (req.query.fail) {
+            res.status(Number(req.query.fail)).json({ status: "error", error: "Failed", code: "failed", meta: {} });
+            return;
+        }
+        res.setHeader("ETag", `"thing-${runs}"`);
+        res.setHeader("Location", `/things/${runs}`);
+        sendSuccess(res, 201, { run: runs, ...req.body });
+    });
+    things.use(errorHandler);
+    app = things.listen(0, "127.0.0.1");
+    await once(app, "listening");
+    base = `http://127.0.0.1:${(app.address() as AddressInfo).port}`;
+});
+
+after(() => {
+    app.closeAllConnections();
+    app.close();
+});
+
+function post(key: string, body: unknown, query = ""): Promise<Response> {
+    return fetch(`${base}/things${query}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "Idempotency-Key": key },
+        body: JSON.stringify(body)
+    });
+}
+
+test("a retried request gets the first response back, headers included, without running again", async () => {
+    const before = runs;
+    const first = await post("k-replay", { name: "a" });
+    const second = await post("k-replay", { name: "a" });
+    assert.equal(runs, before + 1);
+
+    assert.equal(second.status, 201);
+    assert.equal(second.headers.get("Idempotent-Replayed"), "true");
+    assert.equal(first.headers.get("Idempotent-Replayed"), null);
+    assert.equal(second.headers.get("ETag"), first.headers.get("ETag"));
+    assert.equal(second.headers.get("Location"), first.headers.get("Location"));
+    assert.deepEqual(await second.json(), await first.json());
+});
+
+test("the same key with another body is a 422", async () => {
+    await post("k-body", { name: "a" });
+    const reused = await post("k-body", { name: "b" });
+    assert.equal(reused.status, 422);
+    assert.equal((await reused.json() as { code: string }).code, "idempotency_key_reused");
+});
+
+test("the same body in another key order is the same request", async () => {
+    const before = runs;
+    await post("k-order", { a: 1, b: 2 });
+    assert.equal((await post("k-order", { b: 2, a: 1 })).status, 201);
+    assert.equal(runs, before + 1);
+});
+
+test("the query string is part of the request, in any parameter order", async () => {
+    const before = runs;
+    await post("k-query", { name: "a" }, "?x=1&y=2");
+    assert.equal((await post("k-query", { name: "a" }, "?y=2&x=1")).headers.get("Idempotent-Replayed"), "true");
+    const other = await post("k-query", { name: "a" }, "?x=2&y=2");
+    assert.equal(other.headers.get("Idempotent-Replayed"), null);
+    assert.equal(runs, before + 2);
+});
+
+test("a retry while the first request runs is a 409 with Retry-After", async () => {
+    const first = post("k-busy", { name: "a" }, "?delay=200");
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const retry = await post("k-busy", { name: "a" }, "?delay=200");
+    assert.equal(retry.status, 409);
+    assert.equal(retry.headers.get("Retry-After"), "1");
+    assert.equal((await first).status, 201);
+});
+
+test("5xx and 429 responses are not kept, so the request can run again", async () => {
+    const before = runs;
+    assert.equal((await post("k-fail", { name: "a" }, "?fail=503")).status, 503);
+    assert.equal((await post("k-fail", { name: "a" }, "?fail=503")).status, 503);
+    assert.equal(runs, before + 2);
+});
+
+test("keys must be printable ASCII", async () => {
+    const response = await post("has space", {});
+    assert.equal(response.status, 400);
+    assert.equal((await response.json() as { code: string }).code, "invalid_idempotency_key");
+});
+
+/* STORE */
+test("the JSON file store only saves completed requests", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "idempotency-"));
+    try {
+        const file = join(dir, "idempotency.json");
+        const store = new JsonFileIdempotencyStore(file);
+        const expiresAt = Date.now() + 60_000;
+        await store.claim({ key: "done", fingerprint: "f", expiresAt });
+        await store.claim({ key: "running", fingerprint: "f", expiresAt });
+        await store.complete("done", { statusCode: 201, headers: { ETag: '"e"' }, body: { status: "success", data: 1, meta: {} } });
+        await store.flush();
+
+        const saved = JSON.parse(await readFile(file, "utf8")) as { records: { key: string }[] };
+        assert.deepEqual(saved.records.map(r => r.key), ["done"]);
+        const reopened = new JsonFileIdempotencyStore(file);
+        assert.equal((await reopened.claim({ key: "done", fingerprint: "f", expiresAt }))?.response?.headers.ETag, '"e"');
+        assert.equal(await reopened.claim({ key: "running", fingerprint: "f", expiresAt }), undefined);
+    } finally {
+        await rm(dir, { recursive: true });
+    }
+});
+
+/* ON POST /api/users */
+test("a replayed user creation has the same strong ETag and Location", async t => {
+    const server = await startTestServer();
+    t.after(() => server.close());
+    const token = await login(server.url);
+    const create = () => request(server.url, token, "POST", "/api/users", { name: "Dana", email: "dana@example.com", age: 31 }, { "Idempotency-Key": "create-dana" });
+    const first = await create();
+    const replay = await create();
+    assert.equal(replay.status, 201);
+    assert.match(first.headers.get("ETag") ?? "", /^"/);
+    assert.equal(replay.headers.get("ETag"), first.headers.get("ETag"));
+    assert.equal(replay.headers.get("Location"), first.headers.get("Location"));
+
+    const users = await (await request(server.url, token, "GET", "/api/users")).json() as { data: unknown[] };
+    assert.equal(users.data.length, 4);
+});
+
+/* ON POST /api/users/batch */
+test("an atomic batch is not answered with the report of a non-atomic one", async t => {
+    const server = await startTestServer();
+    t.after(() => server.close());
+    const token = await login(server.url);
+    const batch = (query: string) => request(server.url, token, "POST", `/api/users/batch${query}`, {
+        operations: [{ op: "update", id: 3, data: { age: 26 } }]
+    }, { "Idempotency-Key": "sync-1" });
+    await batch("?atomic=false");
+    const atomic = await batch("?atomic=true");
+    assert.equal(atomic.headers.get("Idempotent-Replayed"), null);
+    assert.equal((await atomic.json() as { data: { atomic: boolean } }).data.atomic, true);
+});
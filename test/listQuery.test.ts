@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseListQuery, applyListQuery, buildLink, MAX_LIMIT, type ListFields, type ListPage, type ListQuery } from '../listQuery.ts';
+
+const fields: ListFields = { name: "string", age: "number" };
+
+const people = [
+    { id: 1, name: "Alice", age: 28 },
+    { id: 2, name: "Bob", age: 34 },
+    { id: 3, name: "Charlie", age: 25 },
+    { id: 4, name: "Dana", age: 34 },
+    { id: 5, name: "Eve", age: 41 }
+];
+
+function parse(query: Record<string, unknown>): ListQuery {
+    const result = parseListQuery(query, fields);
+    assert.ok(result.ok, JSON.stringify(result));
+    return result.query;
+}
+
+function errorsOf(query: Record<string, unknown>): [string, string][] {
+    const result = parseListQuery(query, fields);
+    assert.ok(!result.ok);
+    return result.errors.map(e => [e.field, e.code]);
+}
+
+/* PARSING */
+test("filters accept both bracket keys and nested objects, coerced to the field type", () => {
+    assert.deepEqual(parse({ "age[gte]": "30" }).filters, [{ field: "age", op: "gte", value: 30 }]);
+    assert.deepEqual(parse({ age: { lt: "30" }, name: "Bob" }).filters, [
+        { field: "age", op: "lt", value: 30 },
+        { field: "name", op: "eq", value: "Bob" }
+    ]);
+});
+
+test("invalid parameters are all reported", () => {
+    assert.deepEqual(errorsOf({ page: "0", limit: String(MAX_LIMIT + 1), "age[gte]": "old", "name[gt]x": "a" }), [
+        ["page", "invalid_type"],
+        ["limit", "too_large"],
+        ["age[gte]", "invalid_type"],
+        ["name[gt]x", "unknown_field"]
+    ]);
+    assert.deepEqual(errorsOf({ "age[contains]": "3" }), [["age[contains]", "invalid_format"]]);
+    assert.deepEqual(errorsOf({ cursor: "%%%" }), [["cursor", "invalid_format"]]);
+});
+
+test("Object.prototype keys are not fields", () => {
+    assert.deepEqual(errorsOf({ constructor: "x", "toString[eq]": "y" }), [
+        ["constructor", "unknown_field"],
+        ["toString", "unknown_field"]
+    ]);
+    assert.deepEqual(errorsOf({ sort: "hasOwnProperty" }), [["sort", "unknown_field"]]);
+});
+
+/* APPLYING */
+test("filters, sorting and offset pages", () => {
+    const page = applyListQuery(people, parse({ sort: "-age,name", "age[gte]": "28", limit: "2", page: "2" }));
+    assert.deepEqual(page.data.map(p => p.name), ["Dana", "Alice"]);
+    assert.equal(page.total, 4);
+});
+
+test("contains is case-insensitive", () => {
+    assert.deepEqual(applyListQuery(people, parse({ "name[contains]": "LI" })).data.map(p => p.id), [1, 3]);
+});
+
+test("cursor pages walk every item once, ties broken by id", () => {
+    const seen: number[] = [];
+    let cursor: string | null = null;
+    do {
+        const query: Record<string, unknown> = { sort: "-age", limit: "2" };
+        if (cursor) query.cursor = cursor;
+        const page: ListPage<typeof people[number]> = applyListQuery(people, parse(query));
+        seen.push(...page.data.map(p => p.id));
+        cursor = page.nextCursor;
+    } while (cursor);
+    assert.deepEqual(seen, [5, 2, 4, 1, 3]);
+});
+
+test("the last page has no next cursor", () => {
+    assert.equal(applyListQuery(people, parse({ limit: "5" })).nextCursor, null);
+});
+
+/* LINKS */
+test("links replace or remove query parameters", () => {
+    assert.equal(buildLink("/api/users", { sort: "age", page: "1" }, { page: "2" }), "/api/users?sort=age&page=2");
+    assert.equal(buildLink("/api/users", { cursor: "abc" }, { cursor: null }), "/api/users");
+});
@@ -0,0 +1,74 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { configureLogging, logger, redact, requestLogger, REDACTED } from '../logger.ts';
+import { assignRequestId } from '../apiResponse.ts';
+
+let lines: Record<string, unknown>[] = [];
+
+beforeEach(() => {
+    lines = [];
+    configureLogging({ level: "info", write: line => lines.push(JSON.parse(line) as Record<string, unknown>) });
+});
+
+/* REDACTION */
+test("sensitive keys are redacted at any depth, whatever their case", () => {
+    assert.deepEqual(redact({ user: { Email: "a@b.co", password: "x", name: "Ann" }, headers: [{ authorization: "Bearer t" }] }), {
+        user: { Email: REDACTED, password: REDACTED, name: "Ann" },
+        headers: [{ authorization: REDACTED }]
+    });
+});
+
+test("emails inside free text and error messages are masked", () => {
+    assert.equal(redact("dana@example.com already exists"), `${REDACTED} already exists`);
+    const error = redact(new Error("no user jo@example.org")) as { message: string };
+    assert.equal(error.message, `no user ${REDACTED}`);
+});
+
+test("deep structures are truncated rather than walked forever", () => {
+    let nested: Record<string, unknown> = { leaf: true };
+    for (let i = 0; i < 20; i++) nested = { nested };
+    assert.match(JSON.stringify(redact(nested)), /"\[Truncated\]"/);
+});
+
+/* LOGGER */
+test("lines below the configured level are dropped; child bindings are added", () => {
+    configureLogging({ level: "warn" });
+    const log = logger.child({ requestId: "r1" });
+    log.info("skipped");
+    log.warn("kept", { token: "t" });
+    assert.equal(lines.length, 1);
+    const { time, ...line } = lines[0]!;
+    assert.deepEqual(line, { level: "warn", msg: "kept", requestId: "r1", token: REDACTED });
+});
+
+/* REQUEST LOGGING */
+test("one line per request with its id, route pattern and status; 4xx as warn", async () => {
+    const app = express();
+    app.use(assignRequestId, requestLogger);
+    app.get("/items/:id", (req, res) => {
+        res.status(req.params.id === "0" ? 404 : 200).json({});
+    });
+    const server = app.listen(0, "127.0.0.1");
+    await once(server, "listening");
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+        await (await fetch(`${base}/items/7`, { headers: { "X-Request-Id": "req-7" } })).text();
+        await (await fetch(`${base}/items/0`)).text();
+    } finally {
+        server.closeAllConnections();
+        server.close();
+    }
+
+    const [ok, missing] = lines;
+    assert.equal(lines.length, 2);
+    assert.equal(ok?.level, "info");
+    assert.equal(ok?.requestId, "req-7");
+    assert.equal(ok?.route, "/items/:id");
+    assert.equal(ok?.path, "/items/7");
+    assert.equal(ok?.status, 200);
+    assert.equal(missing?.level, "warn");
+    assert.equal(missing?.status, 404);
+});
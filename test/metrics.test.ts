@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { MetricsRegistry, metricsMiddleware, serveMetrics } from '../metrics.ts';
+
+test("counters render one series per label combination, with escaped values", async () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter({ name: "jobs_total", help: "Jobs run", labelNames: ["kind"] });
+    counter.inc({ kind: "import" });
+    counter.inc({ kind: "import" }, 2);
+    counter.inc({ kind: 'say "hi"\n' });
+    assert.equal(await registry.render(), [
+        "# HELP jobs_total Jobs run",
+        "# TYPE jobs_total counter",
+        'jobs_total{kind="import"} 3',
+        'jobs_total{kind="say \\"hi\\"\\n"} 1',
+        ""
+    ].join("\n"));
+    assert.throws(() => counter.inc({ kind: "import" }, -1), RangeError);
+});
+
+test("histogram buckets are cumulative and end with +Inf", async () => {
+    const registry = new MetricsRegistry();
+    const histogram = registry.histogram({ name: "size", help: "Sizes", buckets: [10, 1] });
+    for (const value of [0.5, 5, 50]) histogram.observe({}, value);
+    assert.deepEqual((await registry.render()).trim().split("\n").slice(2), [
+        'size_bucket{le="1"} 1',
+        'size_bucket{le="10"} 2',
+        'size_bucket{le="+Inf"} 3',
+        "size_sum 55.5",
+        "size_count 3"
+    ]);
+});
+
+test("gauges collect their value on every scrape", async () => {
+    const registry = new MetricsRegistry();
+    let queue = 4;
+    registry.gauge({ name: "queue", help: "Queued", collect: gauge => gauge.set({}, queue) });
+    assert.match(await registry.render(), /^queue 4$/m);
+    queue = 7;
+    assert.match(await registry.render(), /^queue 7$/m);
+});
+
+test("a metric name can only be registered once", () => {
+    const registry = new MetricsRegistry();
+    registry.counter({ name: "twice", help: "" });
+    assert.throws(() => registry.counter({ name: "twice", help: "" }), /already registered/);
+});
+
+test("requests are counted by route pattern, unmatched ones included", async () => {
+    const app = express();
+    app.use(metricsMiddleware);
+    app.get("/items/:id", (req, res) => { res.json({}); });
+    serveMetrics(app);
+    const server = app.listen(0, "127.0.0.1");
+    await once(server, "listening");
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+        for (const path of ["/items/1", "/items/2", "/nowhere"]) await (await fetch(`${base}${path}`)).text();
+        const scrape = await fetch(`${base}/metrics`);
+        assert.match(scrape.headers.get("Content-Type") ?? "", /^text\/plain;.*version=0\.0\.4/);
+        const body = await scrape.text();
+        assert.match(body, /^http_requests_total\{method="GET",route="\/items\/:id",status="200"\} 2$/m);
+        assert.match(body, /^http_requests_total\{method="GET",route="unmatched",status="404"\} 1$/m);
+        assert.match(body, /^http_requests_in_flight 1$/m);   // the scrape itself
+    } finally {
+        server.closeAllConnections();
+        server.close();
+    }
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import { routes, openApiDocument } from '../routes.ts';
+import { schemaToJson } from '../openapi.ts';
+import { createUserSchema } from '../users.ts';
+
+type Operation = { security?: unknown[]; responses: Record<string, unknown> };
+const paths = openApiDocument.paths as Record<string, Record<string, Operation>>;
+
+test("the committed openapi.json is up to date", async () => {
+    const committed: unknown = JSON.parse(await readFile(new URL("../openapi.json", import.meta.url), "utf8"));
+    assert.deepEqual(committed, JSON.parse(JSON.stringify(openApiDocument)));
+});
+
+test("every route is documented, with bearer auth and a 401 when it needs a token", () => {
+    for (const route of routes) {
+        const path = route.path.replace(/:(\w+)/g, "{$1}");
+        const operation = paths[path]?.[route.method];
+        assert.ok(operation, `${route.method} ${route.path}`);
+        assert.equal(operation.security !== undefined, route.auth === true, `${route.method} ${route.path}`);
+        if (route.auth) assert.ok("401" in operation.responses, `${route.method} ${route.path}`);
+    }
+});
+
+test("every $ref points to a component", () => {
+    const schemas = (openApiDocument.components as { schemas: Record<string, unknown> }).schemas;
+    const refs = JSON.stringify(openApiDocument).matchAll(/"\$ref":"#\/components\/schemas\/([^"]+)"/g);
+    for (const [, name] of refs) assert.ok(name !== undefined && name in schemas, name);
+});
+
+test("a body schema lists its required fields, unless it is partial", () => {
+    assert.deepEqual(schemaToJson(createUserSchema).required, ["name", "email", "age"]);
+    assert.equal(schemaToJson(createUserSchema, true).required, undefined);
+    assert.equal((schemaToJson(createUserSchema).properties as Record<string, unknown>).password !== undefined, true);
+});
+
+test("list filters are deepObject parameters named after their field", () => {
+    const parameters = (paths["/api/users"]?.get as unknown as { parameters: { name: string; style?: string; schema: { properties?: object } }[] }).parameters;
+    const age = parameters.find(p => p.name === "age");
+    assert.equal(age?.style, "deepObject");
+    assert.deepEqual(Object.keys(age?.schema.properties ?? {}), ["eq", "ne", "gt", "gte", "lt", "lte"]);
+    assert.ok(parameters.every(p => /^[\w-]+$/.test(p.name)), "parameter names are real query keys");
+});
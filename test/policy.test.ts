@@ -0,0 +1,95 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AccessPolicy } from '../policy.ts';
+import type { UserData, PublicUser, UserSearchResult } from '../users.ts';
+import type { ApiResponse, ErrorResponse, SuccessResponse } from '../apiResponse.ts';
+import { startTestServer, login, request, type TestServer } from './testServer.ts';
+
+function user(id: number, role: UserData["role"], employeesUnder?: number[]): UserData {
+    return { id, name: `User ${id}`, email: `user${id}@example.com`, age: 30, role, ...(employeesUnder ? { employeesUnder } : {}) };
+}
+
+/* POLICY ENGINE */
+const org = new Map<number, UserData>([
+    [1, user(1, "manager", [2])],
+    [2, user(2, "manager", [3, 1])],    // reports back up to 1: a cycle
+    [3, user(3, "employee")],
+    [4, user(4, "employee")]
+]);
+const lookup = async (id: number | string) => org.get(Number(id));
+
+test("a manager's subtree includes the reports of their reports, cycles aside", async () => {
+    const policy = await AccessPolicy.for(org.get(1)!, lookup);
+    assert.equal(policy.check("users:update", org.get(3)).allowed, true);
+    assert.equal(policy.check("users:update", org.get(4)).allowed, false);
+});
+
+test("a denial explains itself", async () => {
+    const policy = await AccessPolicy.for(org.get(1)!, lookup);
+    const decision = policy.check("users:set-password", org.get(3));
+    assert.deepEqual(decision, {
+        allowed: false,
+        denial: {
+            permission: "users:set-password",
+            role: "manager",
+            reason: 'Role "manager" is not granted "users:set-password"',
+            grantedTo: ["admin", "self"]
+        }
+    });
+});
+
+/* OVER HTTP
+Alice is the admin, Bob manages Charlie*/
+let server: TestServer;
+const tokens: Record<string, string> = {};
+
+before(async () => {
+    server = await startTestServer();
+    for (const name of ["alice", "bob", "charlie"]) tokens[name] = await login(server.url, `${name}@example.com`);
+});
+
+after(() => server.close());
+
+async function call<T>(as: string, method: string, path: string, body?: unknown): Promise<{ status: number; body: ApiResponse<T> }> {
+    const response = await request(server.url, tokens[as]!, method, path, body);
+    return { status: response.status, body: await response.json() as ApiResponse<T> };
+}
+
+test("a manager reads their reports but not the others", async () => {
+    assert.equal((await call("bob", "GET", "/api/users/3")).status, 200);
+    const denied = await call("bob", "GET", "/api/users/1");
+    assert.equal(denied.status, 403);
+    assert.equal((denied.body as ErrorResponse).policy?.permission, "users:read");
+});
+
+test("lists only hold, and count, the users the caller may read", async () => {
+    const { body } = await call<PublicUser[]>("bob", "GET", "/api/users");
+    const page = body as SuccessResponse<PublicUser[]>;
+    assert.deepEqual(page.data.map(u => u.name), ["Bob", "Charlie"]);
+    assert.equal(page.meta.pagination?.total, 2);
+});
+
+test("search ranks and counts only the users the caller may read", async () => {
+    const { body } = await call<UserSearchResult[]>("bob", "GET", "/api/users/search?q=example&limit=1");
+    const results = body as SuccessResponse<UserSearchResult[]>;
+    assert.equal(results.data.length, 1);
+    assert.notEqual(results.data[0]?.name, "Alice");
+    assert.equal(results.meta.pagination?.total, 2);
+
+    const admin = await call<UserSearchResult[]>("alice", "GET", "/api/users/search?q=example");
+    assert.equal((admin.body as SuccessResponse<UserSearchResult[]>).meta.pagination?.total, 3);
+});
+
+test("a manager may edit a report, but not set their password", async () => {
+    assert.equal((await call("bob", "PATCH", "/api/users/3", { age: 26 })).status, 200);
+    const denied = await call("bob", "PATCH", "/api/users/3", { password: "new-password" });
+    assert.equal(denied.status, 403);
+    assert.equal((denied.body as ErrorResponse).policy?.permission, "users:set-password");
+});
+
+test("users set their own password, and only admins change roles", async () => {
+    assert.equal((await call("charlie", "PATCH", "/api/users/3", { password: "charlie-2" })).status, 200);
+    const promoted = await call("charlie", "PATCH", "/api/users/3", { role: "admin" });
+    assert.equal(promoted.status, 403);
+    assert.equal((promoted.body as ErrorResponse).policy?.permission, "users:manage-roles");
+});
@@ -0,0 +1,102 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { tokenBucket, slidingWindow, InMemoryRateLimitStore, type RateLimitStrategy, type RateLimitDecision } from '../rateLimit.ts';
+import { SEED_PASSWORD } from '../users.ts';
+import { startTestServer, type TestServer } from './testServer.ts';
+
+// Feeds `strategy` the requests made at each time in `times`, keeping its state between them
+function run<S>(strategy: RateLimitStrategy<S>, times: number[], state?: S): { decisions: RateLimitDecision[]; state: S | undefined } {
+    const decisions: RateLimitDecision[] = [];
+    for (const now of times) {
+        const result = strategy.consume(state, now);
+        state = result.state;
+        decisions.push(result.decision);
+    }
+    return { decisions, state };
+}
+
+// A denied request's retryAfterMs is exact: one ms earlier is still denied, at that time it is allowed
+function assertRetryAfterIsExact<S>(strategy: RateLimitStrategy<S>, state: S, now: number): void {
+    const denied = strategy.consume(state, now).decision;
+    assert.equal(denied.allowed, false);
+    assert.equal(strategy.consume(state, now + denied.retryAfterMs - 1).decision.allowed, false, `${now} + ${denied.retryAfterMs} - 1`);
+    assert.equal(strategy.consume(state, now + denied.retryAfterMs).decision.allowed, true, `${now} + ${denied.retryAfterMs}`);
+}
+
+/* TOKEN BUCKET */
+test("token bucket: a burst of `capacity`, then one request per refill interval", () => {
+    const bucket = tokenBucket({ capacity: 5, refillPerSecond: 1 / 12 });
+    const { decisions, state } = run(bucket, [0, 0, 0, 0, 0, 0]);
+    assert.deepEqual(decisions.map(d => d.allowed), [true, true, true, true, true, false]);
+    assert.deepEqual(decisions.map(d => d.remaining), [4, 3, 2, 1, 0, 0]);
+    assert.equal(decisions[5]?.retryAfterMs, 12_000);
+    assert.equal(decisions[4]?.resetMs, 60_000);
+    assert.equal(bucket.policy, "5;w=60");
+    assertRetryAfterIsExact(bucket, state!, 3_000);
+});
+
+test("token bucket: idle time refills up to the capacity only", () => {
+    const bucket = tokenBucket({ capacity: 2, refillPerSecond: 1 });
+    const { decisions } = run(bucket, [0, 0, 60_000, 60_000, 60_000]);
+    assert.deepEqual(decisions.map(d => d.allowed), [true, true, true, true, false]);
+});
+
+/* SLIDING WINDOW */
+test("sliding window: the previous window counts in proportion to its overlap", () => {
+    const window = slidingWindow({ limit: 10, windowMs: 60_000 });
+    const full = run(window, Array.from({ length: 10 }, (_, i) => i * 1_000)).state!;
+    // 15 s into the next window, 75% of the previous 10 requests still count: 2 more fit
+    const { decisions } = run(window, [75_000, 75_000, 75_000], full);
+    assert.deepEqual(decisions.map(d => d.allowed), [true, true, false]);
+    assert.equal(window.policy, "10;w=60");
+});
+
+test("sliding window: retryAfterMs is exact whether the current or the previous window is full", () => {
+    const window = slidingWindow({ limit: 10, windowMs: 60_000 });
+    const currentFull = run(window, Array.from({ length: 10 }, (_, i) => i * 1_000)).state!;
+    assertRetryAfterIsExact(window, currentFull, 20_000);
+    const previousFull = run(window, [61_000, 61_000], currentFull).state!;
+    assertRetryAfterIsExact(window, previousFull, 62_000);
+});
+
+test("sliding window: state two windows old is forgotten", () => {
+    const window = slidingWindow({ limit: 1, windowMs: 1_000 });
+    const { decisions } = run(window, [0, 500, 2_000]);
+    assert.deepEqual(decisions.map(d => d.allowed), [true, false, true]);
+});
+
+/* STORE */
+test("the in-memory store drops state once its ttl is over", async () => {
+    const store = new InMemoryRateLimitStore();
+    const bump = (state: number | undefined) => ({ state: (state ?? 0) + 1, result: (state ?? 0) + 1 });
+    assert.equal(await store.update("k", 60_000, bump), 1);
+    assert.equal(await store.update("k", 60_000, bump), 2);
+    assert.equal(await store.update("short", 0, bump), 1);
+    assert.equal(await store.update("short", 0, bump), 1);
+});
+
+/* MIDDLEWARE
+POST /api/auth/login allows 10 attempts per minute and IP*/
+let server: TestServer;
+
+before(async () => {
+    server = await startTestServer();
+});
+
+after(() => server.close());
+
+test("the 11th login within a minute gets a 429 with Retry-After and RateLimit headers", async () => {
+    const attempt = () => fetch(`${server.url}/api/auth/login`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: "alice@example.com", password: SEED_PASSWORD })
+    });
+    for (let i = 0; i < 10; i++) assert.equal((await attempt()).status, 200);
+    const limited = await attempt();
+    assert.equal(limited.status, 429);
+    assert.equal((await limited.json() as { code: string }).code, "rate_limited");
+    assert.ok(Number(limited.headers.get("Retry-After")) >= 1);
+    assert.equal(limited.headers.get("RateLimit-Limit"), "10");
+    assert.equal(limited.headers.get("RateLimit-Remaining"), "0");
+    assert.equal(limited.headers.get("RateLimit-Policy"), "10;w=60");
+});
@@ -0,0 +1,134 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { startPurgeJob } from '../retention.ts';
+import { purgeDeletedUsers, SEED_PASSWORD } from '../users.ts';
+import { configureLogging } from '../logger.ts';
+import { startTestServer, login, request, type TestServer } from './testServer.ts';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+configureLogging({ level: "silent" });
+
+/* PURGE JOB */
+test("the job purges what was deleted before now minus the retention, on every interval", async t => {
+    t.mock.timers.enable({ apis: ["setInterval", "Date"], now: 100 * DAY_MS });
+    const cutoffs: number[] = [];
+    const job = startPurgeJob({ retentionDays: 30, intervalSeconds: 60, purge: async cutoff => cutoffs.push(cutoff.getTime()) });
+    try {
+        assert.deepEqual(cutoffs, []);
+        t.mock.timers.tick(60_000);
+        // Let the first run settle, or the second tick would find it still in progress
+        await new Promise(resolve => setImmediate(resolve));
+        t.mock.timers.tick(60_000);
+        assert.deepEqual(cutoffs, [70 * DAY_MS + 60_000, 70 * DAY_MS + 120_000]);
+    } finally {
+        await job.stop();
+    }
+    t.mock.timers.tick(60_000);
+    assert.equal(cutoffs.length, 2, "no run after stop()");
+});
+
+test("runs never overlap, and stop() waits for the one in progress", async () => {
+    let calls = 0;
+    let finish!: (purged: number) => void;
+    const job = startPurgeJob({
+        retentionDays: 30, intervalSeconds: 3600,
+        purge: () => {
+            calls++;
+            return new Promise(resolve => finish = resolve);
+        }
+    });
+
+    const first = job.runNow();
+    const second = job.runNow();
+    assert.equal(calls, 1);
+
+    let stopped = false;
+    const stopping = job.stop().then(() => stopped = true);
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(stopped, false);
+
+    finish(2);
+    assert.deepEqual(await Promise.all([first, second]), [2, 2]);
+    await stopping;
+    assert.equal(stopped, true);
+});
+
+/* SOFT DELETE, RESTORE, PURGE */
+let server: TestServer;
+let admin: string;
+
+before(async () => {
+    server = await startTestServer();
+    admin = await login(server.url);
+});
+
+after(() => server.close());
+
+async function loginStatus(email: string): Promise<number> {
+    const response = await fetch(`${server.url}/api/auth/login`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password: SEED_PASSWORD })
+    });
+    return response.status;
+}
+
+async function listedIds(token: string, query = ""): Promise<number[]> {
+    const body = await (await request(server.url, token, "GET", `/api/users${query}`)).json() as { data: { id: number }[] };
+    return body.data.map(user => user.id);
+}
+
+test("a deleted user is hidden, cannot log in, and only admins see it with includeDeleted", async () => {
+    const bob = await login(server.url, "bob@example.com");
+    assert.equal((await request(server.url, admin, "DELETE", "/api/users/3")).status, 204);
+
+    assert.equal((await request(server.url, admin, "GET", "/api/users/3")).status, 404);
+    assert.deepEqual(await listedIds(admin), [1, 2]);
+    assert.equal(await loginStatus("charlie@example.com"), 401);
+    assert.equal((await request(server.url, admin, "DELETE", "/api/users/3")).status, 404);
+
+    const shown = await request(server.url, admin, "GET", "/api/users/3?includeDeleted=true");
+    assert.equal(shown.status, 200);
+    assert.match((await shown.json() as { data: { deletedAt: string } }).data.deletedAt, /^\d{4}-\d\d-\d\dT/);
+    assert.deepEqual(await listedIds(admin, "?includeDeleted=true"), [1, 2, 3]);
+    assert.equal((await request(server.url, bob, "GET", "/api/users?includeDeleted=true")).status, 403);
+});
+
+test("a PATCH or PUT racing a DELETE never brings the user back", async () => {
+    const { id } = (await (await request(server.url, admin, "POST", "/api/users", { name: "Kim", email: "kim@example.com", age: 30 })).json() as { data: { id: number } }).data;
+    // Hashing the password keeps each write busy while the DELETE goes through
+    const [patched, replaced, deleted] = await Promise.all([
+        request(server.url, admin, "PATCH", `/api/users/${id}`, { password: "kim-new-secret" }),
+        request(server.url, admin, "PUT", `/api/users/${id}`, { name: "Kim", email: "kim@example.com", age: 31, password: "kim-new-secret" }),
+        request(server.url, admin, "DELETE", `/api/users/${id}`)
+    ]);
+    assert.equal(deleted.status, 204);
+    assert.ok([200, 404].includes(patched.status) && [200, 404].includes(replaced.status));
+    assert.equal((await request(server.url, admin, "GET", `/api/users/${id}`)).status, 404);
+});
+
+test("restore brings the user back once", async () => {
+    const restored = await request(server.url, admin, "POST", "/api/users/3/restore");
+    assert.equal(restored.status, 200);
+    assert.equal((await restored.json() as { data: { deletedAt?: string } }).data.deletedAt, undefined);
+    assert.equal((await request(server.url, admin, "GET", "/api/users/3")).status, 200);
+    assert.equal(await loginStatus("charlie@example.com"), 200);
+
+    const again = await request(server.url, admin, "POST", "/api/users/3/restore");
+    assert.equal(again.status, 409);
+    assert.equal((await again.json() as { code: string }).code, "not_deleted");
+});
+
+test("the purge hard-deletes only users deleted before the cutoff, and audits it without an actor", async () => {
+    assert.equal((await request(server.url, admin, "DELETE", "/api/users/3")).status, 204);
+    assert.equal(await purgeDeletedUsers(new Date(Date.now() - DAY_MS)), 0);
+    assert.equal((await request(server.url, admin, "GET", "/api/users/3?includeDeleted=true")).status, 200);
+
+    assert.equal(await purgeDeletedUsers(new Date(Date.now() + 1)), 2);   // Charlie and Kim
+    assert.equal((await request(server.url, admin, "GET", "/api/users/3?includeDeleted=true")).status, 404);
+
+    const history = await (await request(server.url, admin, "GET", "/api/users/3/history")).json() as { data: { action: string; actor?: unknown }[] };
+    assert.equal(history.data[0]?.action, "purge");
+    assert.equal(history.data[0]?.actor, undefined);
+});
@@ -0,0 +1,66 @@
+import { test, before } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { enableGracefulShutdown, onDrain, onShutdown, closeConnectionsWhenDraining } from '../shutdown.ts';
+import { getLifecycle, setLifecycle } from '../health.ts';
+import { configureLogging } from '../logger.ts';
+
+// Hooks are process-wide: every shutdown below runs them all
+const calls: string[] = [];
+
+before(() => {
+    configureLogging({ level: "silent" });
+    onDrain("streams", () => calls.push("drain"));
+    onShutdown("store", async () => { calls.push("flush"); });
+});
+
+// Answers after `delayMs`, or never when undefined
+async function serve(delayMs?: number) {
+    const app = express();
+    app.use(closeConnectionsWhenDraining);
+    app.get("/slow", (req, res) => {
+        if (delayMs !== undefined) setTimeout(() => res.json({ done: true }), delayMs);
+    });
+    const server = app.listen(0, "127.0.0.1");
+    await once(server, "listening");
+    return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/slow` };
+}
+
+test("in-flight requests finish, then the hooks run and the process exits 0", async () => {
+    calls.length = 0;
+    setLifecycle("ready");
+    const { server, url } = await serve(100);
+    const exited = new Promise<number>(resolve => {
+        enableGracefulShutdown(server, { timeoutMs: 2_000, signals: ["SIGUSR2"], exit: code => resolve(code) });
+    });
+
+    const request = fetch(url);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    process.emit("SIGUSR2", "SIGUSR2");
+    assert.equal(getLifecycle(), "draining");
+    assert.deepEqual(calls, ["drain"]);
+
+    const response = await request;
+    assert.equal(response.status, 200);
+    assert.equal(await exited, 0);
+    assert.deepEqual(calls, ["drain", "flush"]);
+});
+
+test("requests still running after the timeout are cut off and the exit code is 1", async () => {
+    calls.length = 0;
+    setLifecycle("ready");
+    const { server, url } = await serve();
+    const exited = new Promise<number>(resolve => {
+        enableGracefulShutdown(server, { timeoutMs: 50, signals: ["SIGHUP"], exit: code => resolve(code) });
+    });
+
+    const request = fetch(url);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    process.emit("SIGHUP", "SIGHUP");
+
+    await assert.rejects(request);
+    assert.equal(await exited, 1);
+    assert.deepEqual(calls, ["drain", "flush"]);
+});
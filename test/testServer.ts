@@ -0,0 +1,65 @@
+import express from 'express';
+import { once } from 'node:events';
+import type { AddressInfo } from 'node:net';
+import { routes } from '../routes.ts';
+import { registerRoutes } from '../openapi.ts';
+import { errorHandler, notFoundHandler } from '../errors.ts';
+import { assignRequestId } from '../apiResponse.ts';
+import { seedUsers, useUserRepository, SEED_PASSWORD } from '../users.ts';
+import { InMemoryUserRepository } from '../userRepository.ts';
+
+/* TEST SERVER
+The JSON routes of server.js on a random port, with the in-memory stores
+and the mock users. Each call starts from a fresh copy of the users:
+
+    const server = await startTestServer();
+    const token = await login(server.url, "bob@example.com");
+    const response = await request(server.url, token, "PATCH", "/api/users/3", { age: 26 });
+    ...
+    await server.close();
+*/
+export interface TestServer {
+    url: string;
+    close(): Promise<void>;
+}
+
+export async function startTestServer(): Promise<TestServer> {
+    useUserRepository(new InMemoryUserRepository(seedUsers));
+
+    const app = express();
+    app.use(assignRequestId);
+    app.use(express.json());
+    registerRoutes(app, routes);
+    app.use(notFoundHandler);
+    app.use(errorHandler);
+
+    const server = app.listen(0, "127.0.0.1");
+    await once(server, "listening");
+    const { port } = server.address() as AddressInfo;
+    return {
+        url: `http://127.0.0.1:${port}`,
+        close: () => {
+            // Keep-alive connections (and open event streams) would hold close() back
+            server.closeAllConnections();
+            return new Promise((resolve, reject) => server.close(err => err ? reject(err) : resolve()));
+        }
+    };
+}
+
+// Access token of a mock user (all of them share SEED_PASSWORD)
+export async function login(url: string, email = "alice@example.com"): Promise<string> {
+    const response = await fetch(`${url}/api/auth/login`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password: SEED_PASSWORD })
+    });
+    const body = await response.json() as { data: { accessToken: string } };
+    return body.data.accessToken;
+}
+
+// A JSON request made as the owner of `token`; `headers` are added to the defaults
+export function request(url: string, token: string, method: string, path: string, body?: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    const init: RequestInit = { method, headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json", ...headers } };
+    if (body !== undefined) init.body = JSON.stringify(body);
+    return fetch(`${url}${path}`, init);
+}
@@ -0,0 +1,105 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { BatchOperation, BatchReport } from '../userBatch.ts';
+import { startTestServer, login, request, type TestServer } from './testServer.ts';
+
+let server: TestServer;
+let admin: string;
+
+before(async () => {
+    server = await startTestServer();
+    admin = await login(server.url);
+});
+
+after(() => server.close());
+
+async function batch(operations: BatchOperation[], query = ""): Promise<BatchReport> {
+    const response = await request(server.url, admin, "POST", `/api/users/batch${query}`, { operations });
+    assert.equal(response.status, 200);
+    return (await response.json() as { data: BatchReport }).data;
+}
+
+async function userIds(): Promise<number[]> {
+    return ((await (await request(server.url, admin, "GET", "/api/users")).json()) as { data: { id: number }[] }).data.map(user => user.id);
+}
+
+async function historyLength(id: number): Promise<number> {
+    return ((await (await request(server.url, admin, "GET", `/api/users/${id}/history`)).json()) as { meta: { pagination: { total: number } } }).meta.pagination.total;
+}
+
+test("without atomic, each operation stands on its own", async () => {
+    const report = await batch([
+        { op: "create", data: { name: "Gina", email: "gina@example.com", age: 33 } },
+        { op: "update", id: 999, data: { age: 1 } },
+        { op: "update", id: 3, data: { age: "old" } },
+        { op: "update", id: 3, data: { age: 26 } }
+    ]);
+    assert.deepEqual([report.atomic, report.committed, report.succeeded, report.failed], [false, true, 2, 2]);
+    assert.deepEqual(report.results.map(r => [r.index, r.status]), [[0, 201], [1, 404], [2, 400], [3, 200]]);
+    assert.deepEqual(report.results[2]?.error?.details?.map(d => d.field), ["data.age"]);
+    assert.equal(report.results[3]?.data?.age, 26);
+    assert.deepEqual(await userIds(), [1, 2, 3, 4]);
+});
+
+test("an atomic batch that fails rolls back what ran and skips the rest, without audit entries", async () => {
+    const before = await historyLength(3);
+    const report = await batch([
+        { op: "create", data: { name: "Hugo", email: "hugo@example.com", age: 40 } },
+        { op: "delete", id: 3 },
+        { op: "create", data: { name: "Dup", email: "alice@example.com", age: 40 } },
+        { op: "delete", id: 2 }
+    ], "?atomic=true");
+
+    assert.deepEqual([report.atomic, report.committed, report.succeeded, report.failed], [true, false, 0, 4]);
+    assert.deepEqual(report.results.map(r => [r.status, r.error?.code]), [
+        [424, "failed_dependency"], [424, "failed_dependency"], [409, "conflict"], [424, "failed_dependency"]
+    ]);
+    assert.match(report.results[0]?.error?.message ?? "", /^Rolled back/);
+    assert.match(report.results[3]?.error?.message ?? "", /^Not attempted/);
+
+    assert.deepEqual(await userIds(), [1, 2, 3, 4]);
+    assert.equal(((await (await request(server.url, admin, "GET", "/api/users/search?q=hugo")).json()) as { data: unknown[] }).data.length, 0);
+    assert.equal(await historyLength(3), before);
+});
+
+test("an atomic batch with invalid data fails before touching the store", async () => {
+    const report = await batch([
+        { op: "delete", id: 3 },
+        { op: "create", data: { name: "" } }
+    ], "?atomic=true");
+    assert.equal(report.committed, false);
+    assert.deepEqual(report.results.map(r => r.status), [424, 400]);
+    assert.match(report.results[0]?.error?.message ?? "", /^Not attempted/);
+    assert.deepEqual(await userIds(), [1, 2, 3, 4]);
+});
+
+test("an atomic batch that succeeds keeps everything and audits each change", async () => {
+    const before = await historyLength(3);
+    const report = await batch([
+        { op: "update", id: 3, data: { name: "Charles" } },
+        { op: "delete", id: 4 }
+    ], "?atomic=true");
+    assert.deepEqual([report.committed, report.succeeded], [true, 2]);
+    assert.deepEqual(report.results.map(r => r.status), [200, 204]);
+    assert.deepEqual(await userIds(), [1, 2, 3]);
+    assert.equal(await historyLength(3), before + 1);
+});
+
+test("the batch itself is validated", async () => {
+    assert.equal((await request(server.url, admin, "POST", "/api/users/batch", { operations: [] })).status, 400);
+    assert.equal((await request(server.url, admin, "POST", "/api/users/batch", { operations: [{ op: "merge" }] })).status, 400);
+});
+
+test("batches and imports share a per-user limit", async () => {
+    let status = 200;
+    for (let i = 0; i < 10 && status !== 429; i++) status = (await request(server.url, admin, "POST", "/api/users/batch", { operations: [] })).status;
+    assert.equal(status, 429);
+
+    const imported = await fetch(`${server.url}/api/users/import?dryRun=true`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${admin}`, "Content-Type": "text/csv" },
+        body: "name,email,age\nIda,ida@example.com,30\n"
+    });
+    assert.equal(imported.status, 429);
+    assert.equal(imported.headers.get("RateLimit-Policy"), "10;w=600");
+});
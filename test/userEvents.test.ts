@@ -0,0 +1,198 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { closeEventStreams, configureUserEvents } from '../userEvents.ts';
+import { configureAuth } from '../auth.ts';
+import { SEED_PASSWORD } from '../users.ts';
+import { startTestServer, login, request, type TestServer } from './testServer.ts';
+
+let server: TestServer;
+let admin: string;
+
+before(async () => {
+    server = await startTestServer();
+    admin = await login(server.url);
+});
+
+after(() => server.close());
+
+/* SSE CLIENT
+Parses the stream into events; comment lines (heartbeats) are kept as { comment }*/
+interface SseEvent {
+    id?: string;
+    event?: string;
+    data?: Record<string, unknown>;
+    comment?: string;
+}
+
+interface EventReader {
+    status: number;
+    // The next event, or undefined once the server ended the stream
+    next(): Promise<SseEvent | undefined>;
+    close(): void;
+}
+
+async function subscribe(token: string, lastEventId?: string): Promise<EventReader> {
+    const controller = new AbortController();
+    const headers: Record<string, string> = { Authorization: `Bearer ${token}` };
+    if (lastEventId !== undefined) headers["Last-Event-ID"] = lastEventId;
+    const response = await fetch(`${server.url}/api/users/events`, { headers, signal: controller.signal });
+    const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let text = "";
+
+    const next = async (): Promise<SseEvent | undefined> => {
+        for (;;) {
+            const end = text.indexOf("\n\n");
+            if (end !== -1) {
+                const block = text.slice(0, end);
+                text = text.slice(end + 2);
+                const event: SseEvent = {};
+                for (const line of block.split("\n")) {
+                    if (line.startsWith(":")) event.comment = line.slice(1).trim();
+                    else if (line.startsWith("id: ")) event.id = line.slice(4);
+                    else if (line.startsWith("event: ")) event.event = line.slice(7);
+                    else if (line.startsWith("data: ")) event.data = JSON.parse(line.slice(6)) as Record<string, unknown>;
+                }
+                // The `retry:` line alone is not an event
+                if (Object.keys(event).length > 0) return event;
+                continue;
+            }
+            const { done, value } = await reader.read();
+            if (done) return undefined;
+            text += value;
+        }
+    };
+    return { status: response.status, next, close: () => controller.abort() };
+}
+
+// Bounded, so a missing event fails the test instead of hanging it
+function within<T>(promise: Promise<T>, ms = 2000): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => timer = setTimeout(() => reject(new Error(`Nothing within ${ms} ms`)), ms));
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+test("every committed change goes out as a typed event, without credentials", async () => {
+    const stream = await subscribe(admin);
+    try {
+        assert.equal(stream.status, 200);
+        const created = await request(server.url, admin, "POST", "/api/users", { name: "Ivy", email: "ivy@example.com", age: 31, password: "ivy-secret" });
+        const { id } = (await created.json() as { data: { id: number } }).data;
+        await request(server.url, admin, "PATCH", `/api/users/${id}`, { age: 32 });
+        await request(server.url, admin, "DELETE", `/api/users/${id}`);
+
+        const events = [await within(stream.next()), await within(stream.next()), await within(stream.next())];
+        assert.deepEqual(events.map(e => e?.event), ["user.created", "user.updated", "user.deleted"]);
+        assert.match(events[0]?.id ?? "", /^[0-9a-z]+-\d+$/);
+        assert.match(String(events[0]?.data?.at), /^\d{4}-\d\d-\d\dT/);
+        const user = events[1]?.data?.user as Record<string, unknown>;
+        assert.equal(user.age, 32);
+        assert.equal("passwordHash" in user, false);
+        assert.deepEqual(Object.keys(events[2]?.data ?? {}).sort(), ["at", "id"]);
+    } finally {
+        stream.close();
+    }
+});
+
+test("subscribers only get events about users they may read", async () => {
+    const charlie = await subscribe(await login(server.url, "charlie@example.com"));
+    try {
+        await request(server.url, admin, "PATCH", "/api/users/1", { age: 29 });
+        await request(server.url, admin, "PATCH", "/api/users/3", { age: 27 });
+        const first = await within(charlie.next());
+        assert.equal((first?.data?.user as { id: number }).id, 3);
+    } finally {
+        charlie.close();
+    }
+});
+
+test("Last-Event-ID replays what was missed, in order; an unknown id gets a reset", async () => {
+    const stream = await subscribe(admin);
+    await request(server.url, admin, "PATCH", "/api/users/2", { age: 35 });
+    const seen = await within(stream.next());
+    stream.close();
+
+    await request(server.url, admin, "PATCH", "/api/users/2", { age: 36 });
+    await request(server.url, admin, "PATCH", "/api/users/2", { age: 37 });
+
+    const resumed = await subscribe(admin, seen?.id);
+    try {
+        const missed = [await within(resumed.next()), await within(resumed.next())];
+        assert.deepEqual(missed.map(e => (e?.data?.user as { age: number }).age), [36, 37]);
+    } finally {
+        resumed.close();
+    }
+
+    const lost = await subscribe(admin, "0-1");
+    try {
+        assert.equal((await within(lost.next()))?.event, "reset");
+    } finally {
+        lost.close();
+    }
+});
+
+test("an event older than the replay buffer gets a reset", async () => {
+    configureUserEvents({ replaySize: 2 });
+    try {
+        const stream = await subscribe(admin);
+        await request(server.url, admin, "PATCH", "/api/users/2", { age: 40 });
+        const seen = await within(stream.next());
+        stream.close();
+        for (const age of [41, 42, 43]) await request(server.url, admin, "PATCH", "/api/users/2", { age });
+
+        const resumed = await subscribe(admin, seen?.id);
+        try {
+            assert.equal((await within(resumed.next()))?.event, "reset");
+        } finally {
+            resumed.close();
+        }
+    } finally {
+        configureUserEvents({ replaySize: 1000 });
+    }
+});
+
+test("heartbeats keep an idle stream busy", async () => {
+    configureUserEvents({ heartbeatSeconds: 0.05 });
+    const stream = await subscribe(admin);
+    try {
+        assert.equal((await within(stream.next()))?.comment, "heartbeat");
+    } finally {
+        stream.close();
+        configureUserEvents({ heartbeatSeconds: 15 });
+    }
+});
+
+test("the stream ends once the caller logs out, before any event is sent", async () => {
+    const response = await fetch(`${server.url}/api/auth/login`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: "bob@example.com", password: SEED_PASSWORD })
+    });
+    const { accessToken, refreshToken } = (await response.json() as { data: { accessToken: string; refreshToken: string } }).data;
+    const stream = await subscribe(accessToken);
+    try {
+        assert.equal((await request(server.url, accessToken, "POST", "/api/auth/logout", { refreshToken })).status, 204);
+        await request(server.url, admin, "PATCH", "/api/users/3", { age: 28 });
+        assert.equal(await within(stream.next()), undefined);
+    } finally {
+        stream.close();
+    }
+});
+
+test("the stream ends when the access token expires, and on shutdown", async () => {
+    configureAuth({ accessTokenTtl: 1 });
+    const shortLived = await subscribe(await login(server.url, "bob@example.com"));
+    configureAuth({ accessTokenTtl: 15 * 60 });
+    try {
+        assert.equal(await within(shortLived.next(), 2500), undefined);
+    } finally {
+        shortLived.close();
+    }
+
+    const stream = await subscribe(admin);
+    try {
+        closeEventStreams();
+        assert.equal(await within(stream.next()), undefined);
+    } finally {
+        stream.close();
+    }
+});
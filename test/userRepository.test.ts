@@ -0,0 +1,169 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { InMemoryUserRepository, JsonFileUserRepository, type NewUserData } from '../userRepository.ts';
+import { SearchableUserRepository } from '../userSearch.ts';
+import type { UserData } from '../users.ts';
+
+const seed: UserData[] = [
+    { id: 1, name: "Alice", email: "alice@example.com", age: 28, passwordHash: "h", role: "admin" },
+    { id: 2, name: "Bob", email: "bob@example.com", age: 34, passwordHash: "h", role: "manager" }
+];
+
+function newUser(name: string): NewUserData {
+    return { name, email: `${name.toLowerCase()}@example.com`, age: 30, passwordHash: "h", role: "employee" };
+}
+
+class Rollback extends Error {}
+
+/* CRUD */
+test("records are copies: changing what a method returned does not change the store", async () => {
+    const repo = new InMemoryUserRepository(seed);
+    const alice = (await repo.findById(1))!;
+    alice.age = 99;
+    assert.equal((await repo.findById(1))?.age, 28);
+    assert.equal(seed[0]?.age, 28, "the seed array is not mutated either");
+
+    const carol = await repo.create(newUser("Carol"));
+    assert.equal(carol.id, 3);
+    assert.equal((await repo.findByEmail("carol@example.com"))?.id, 3);
+    assert.equal(await repo.update({ ...carol, id: 42 }), undefined);
+    assert.equal(await repo.delete(42), false);
+});
+
+test("a failing precondition cancels the write", async () => {
+    const repo = new InMemoryUserRepository(seed);
+    const refuse = () => {
+        throw new Rollback();
+    };
+    await assert.rejects(repo.update({ ...seed[0]!, age: 50 }, refuse), Rollback);
+    await assert.rejects(repo.delete(1, refuse), Rollback);
+    assert.equal((await repo.findById(1))?.age, 28);
+});
+
+test("the JSON file store starts from the seed, and deleted ids stay used after a restart", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "users-"));
+    try {
+        const filePath = join(dir, "users.json");
+        const repo = new JsonFileUserRepository(filePath, seed);
+        assert.deepEqual(await repo.findAll(), seed);
+
+        const carol = await repo.create(newUser("Carol"));
+        await repo.delete(carol.id);
+        await repo.flush();
+
+        // No seed this time: everything comes from the file
+        const restarted = new JsonFileUserRepository(filePath);
+        assert.deepEqual((await restarted.findAll()).map(u => u.id), [1, 2]);
+        assert.equal((await restarted.create(newUser("Dave"))).id, 4);
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+});
+
+/* TRANSACTIONS */
+test("a transaction that throws keeps none of its writes, and its ids are not reused", async () => {
+    const repo = new InMemoryUserRepository(seed);
+    await assert.rejects(repo.transaction(async tx => {
+        await tx.create(newUser("Carol"));
+        await tx.update({ ...seed[0]!, age: 50 });
+        await tx.delete(2);
+        // Visible inside the transaction
+        assert.deepEqual((await tx.findAll()).map(u => [u.id, u.age]), [[1, 50], [3, 30]]);
+        throw new Rollback();
+    }), Rollback);
+
+    assert.deepEqual(await repo.findAll(), seed);
+    assert.equal((await repo.create(newUser("Dave"))).id, 4);
+});
+
+test("a committed transaction keeps every write and resolves with the work's result", async () => {
+    const repo = new InMemoryUserRepository(seed);
+    const result = await repo.transaction(async tx => {
+        const carol = await tx.create(newUser("Carol"));
+        // Nested: part of the outer transaction
+        await tx.transaction(async inner => inner.delete(1));
+        return carol.id;
+    });
+    assert.equal(result, 3);
+    assert.deepEqual((await repo.findAll()).map(u => u.id), [2, 3]);
+});
+
+test("other callers wait for the transaction to end, so they never see half of it", async () => {
+    const repo = new InMemoryUserRepository(seed);
+    let release!: () => void;
+    const held = new Promise<void>(resolve => release = resolve);
+    const order: string[] = [];
+
+    const transaction = repo.transaction(async tx => {
+        await tx.update({ ...seed[0]!, age: 50 });
+        await held;
+        await tx.update({ ...seed[1]!, age: 60 });
+        order.push("commit");
+    });
+    const read = repo.findAll().then(users => {
+        order.push("read");
+        return users.map(u => u.age);
+    });
+    const write = repo.create(newUser("Carol")).then(() => order.push("write"));
+
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepEqual(order, []);
+    release();
+    await Promise.all([transaction, write]);
+    assert.deepEqual(await read, [50, 60]);
+    assert.deepEqual(order, ["commit", "read", "write"]);
+});
+
+test("the JSON file store saves on commit only, and a new instance reads it back", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "users-"));
+    try {
+        const filePath = join(dir, "users.json");
+        const repo = new JsonFileUserRepository(filePath, seed);
+        await repo.create(newUser("Carol"));
+        await repo.flush();
+        const saved = await readFile(filePath, "utf8");
+
+        await assert.rejects(repo.transaction(async tx => {
+            await tx.create(newUser("Dave"));
+            throw new Rollback();
+        }), Rollback);
+        await repo.flush();
+        assert.equal(await readFile(filePath, "utf8"), saved);
+
+        await repo.transaction(async tx => tx.delete(1));
+        await repo.flush();
+        const reloaded = new JsonFileUserRepository(filePath);
+        assert.deepEqual((await reloaded.findAll()).map(u => u.id), [2, 3]);
+        // Dave's id was handed out before the rollback: still not reused
+        assert.equal((await reloaded.create(newUser("Erin"))).id, 5);
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+});
+
+test("search only sees the writes of a transaction once it commits", async () => {
+    const repo = new SearchableUserRepository(new InMemoryUserRepository(seed));
+    assert.equal((await repo.search("alice", 10)).total, 1);
+
+    await assert.rejects(repo.transaction(async tx => {
+        await tx.create(newUser("Carol"));
+        await tx.delete(1);
+        // Not committed yet
+        assert.equal((await repo.search("carol", 10)).total, 0);
+        assert.equal((await repo.search("alice", 10)).total, 1);
+        throw new Rollback();
+    }), Rollback);
+    assert.equal((await repo.search("carol", 10)).total, 0);
+    assert.equal((await repo.search("alice", 10)).total, 1);
+
+    await repo.transaction(async tx => {
+        await tx.create(newUser("Dave"));
+        await tx.transaction(async inner => inner.delete(1));
+        assert.equal((await repo.search("dave", 10)).total, 0);
+    });
+    assert.equal((await repo.search("dave", 10)).total, 1);
+    assert.equal((await repo.search("alice", 10)).total, 0);
+});
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { UserSearchIndex, tokenize } from '../userSearch.ts';
+import type { UserData } from '../users.ts';
+
+function user(id: number, name: string, email: string): UserData {
+    return { id, name, email, age: 30, role: "employee" };
+}
+
+function indexOf(...users: UserData[]): UserSearchIndex {
+    const index = new UserSearchIndex();
+    users.forEach(u => index.add(u));
+    return index;
+}
+
+function names(index: UserSearchIndex, query: string): string[] {
+    return index.search(query, 10).hits.map(hit => hit.user.name);
+}
+
+const index = indexOf(
+    user(1, "Alice Martin", "alice@example.com"),
+    user(2, "Charlie Brown", "charlie@example.com"),
+    user(3, "José Díaz", "jd@example.org")
+);
+
+test("tokens are lower-cased and stripped of accents", () => {
+    assert.deepEqual(tokenize("José DÍAZ, jd@example.org"), ["jose", "diaz", "jd", "example", "org"]);
+});
+
+test("exact words, prefixes and typos all match", () => {
+    assert.deepEqual(names(index, "alice"), ["Alice Martin"]);
+    assert.deepEqual(names(index, "char"), ["Charlie Brown"]);
+    assert.deepEqual(names(index, "charly"), ["Charlie Brown"]);
+    assert.deepEqual(names(index, "jose"), ["José Díaz"]);
+});
+
+test("short tokens allow no typos", () => {
+    assert.deepEqual(names(index, "jx"), []);
+});
+
+test("a name match ranks above an email match", () => {
+    const ranked = indexOf(user(1, "Dana", "martin@example.com"), user(2, "Martin", "m@example.com"));
+    assert.deepEqual(names(ranked, "martin"), ["Martin", "Dana"]);
+});
+
+test("every query token counts towards the score", () => {
+    const [first, second] = index.search("alice example", 10).hits;
+    assert.equal(first?.user.name, "Alice Martin");
+    assert.ok((first?.score ?? 0) > (second?.score ?? 0));
+});
+
+test("updated and removed users leave the index", () => {
+    const changing = indexOf(user(1, "Alice", "alice@example.com"));
+    changing.add(user(1, "Robert", "robert@example.com"));
+    assert.deepEqual(names(changing, "alice"), []);
+    assert.deepEqual(names(changing, "robert"), ["Robert"]);
+    changing.remove(1);
+    assert.deepEqual(names(changing, "robert"), []);
+});
@@ -0,0 +1,179 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { Readable } from 'node:stream';
+import { configureImport, csvRecords, exportLines, ndjsonRecords, type ImportRecord, type ImportReport } from '../userTransfer.ts';
+import { createUserSchema } from '../users.ts';
+import { startTestServer, login, type TestServer } from './testServer.ts';
+
+// A request body arriving in these chunks
+function body(...chunks: string[]): Readable {
+    return Readable.from(chunks.map(chunk => Buffer.from(chunk)), { objectMode: false });
+}
+
+async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+    const all: T[] = [];
+    for await (const item of items) all.push(item);
+    return all;
+}
+
+/* CSV PARSER */
+test("CSV: quotes, escaped quotes, line breaks inside quotes, BOM and CRLF", async () => {
+    const records = await collect(csvRecords(body(
+        '\uFEFFname,email,age\r\n',
+        '"Doe, ""JD"" John",jd@example.com,41\r\n',
+        '\r\n',
+        '"Multi\nline",ml@example.com,x\n',
+        'Last,last@example.com,7'
+    ), createUserSchema));
+
+    assert.deepEqual(records, [
+        { line: 2, value: { name: 'Doe, "JD" John', email: "jd@example.com", age: 41 } },
+        // Not a number: left as text for validate() to reject
+        { line: 4, value: { name: "Multi\nline", email: "ml@example.com", age: "x" } },
+        { line: 6, value: { name: "Last", email: "last@example.com", age: 7 } }
+    ]);
+});
+
+test("CSV: a quoted field split across chunks, blank and array cells", async () => {
+    const records = await collect(csvRecords(body(
+        "name,email,age,employeesUnder,role\n",
+        '"Spl', 'it ""quo', 'te""",s@example.com,30,2; 3,\n'
+    ), createUserSchema));
+    // The empty role cell is left out, so the optional field stays unset
+    assert.deepEqual(records, [{ line: 2, value: { name: 'Split "quote"', email: "s@example.com", age: 30, employeesUnder: [2, 3] } }]);
+});
+
+test("CSV: extra columns and an unterminated quote are row errors", async () => {
+    const records = await collect(csvRecords(body('name,email\na,b,c\n"open,x@example.com\n'), createUserSchema));
+    assert.deepEqual(records, [
+        { line: 2, error: "Expected at most 2 columns, got 3" },
+        { line: 3, error: "Unterminated quoted field" }
+    ]);
+});
+
+/* NDJSON */
+test("NDJSON: one object per line, blank lines skipped, bad lines reported", async () => {
+    const records = await collect(ndjsonRecords(body('{"name":"A"}\n\n{oops\n[1]\n{"name":"B"}')));
+    assert.deepEqual(records, [
+        { line: 1, value: { name: "A" } },
+        { line: 3, error: "Invalid JSON" },
+        { line: 4, error: "Expected a JSON object" },
+        { line: 5, value: { name: "B" } }
+    ] satisfies ImportRecord[]);
+});
+
+/* EXPORT */
+test("CSV export quotes what needs it and defuses spreadsheet formulas", async () => {
+    const rows = Readable.from([{ id: 1, name: "=HYPERLINK(1)", email: 'a "b", c', employeesUnder: [2, 3] }]);
+    const csv = (await collect(exportLines("csv", ["id", "name", "email", "employeesUnder", "age"], rows))).join("");
+    assert.equal(csv, 'id,name,email,employeesUnder,age\r\n1,\'=HYPERLINK(1),"a ""b"", c",2;3,\r\n');
+});
+
+test("CSV export then import gives the names back, formula prefix and all", async () => {
+    const names = ["=SUM(A1)", "+1 555", "-dash", "@home", "'=quoted", "O'Brien", "'plain"];
+    const rows = Readable.from(names.map(name => ({ name, email: "x@example.com" })));
+    const csv = (await collect(exportLines("csv", ["name", "email"], rows))).join("");
+    const records = await collect(csvRecords(body(csv), createUserSchema));
+    assert.deepEqual(records.map(record => "value" in record ? record.value.name : record.error), names);
+});
+
+test("JSON export is a valid array, empty or not; NDJSON one object per line", async () => {
+    const json = async (rows: object[]) => JSON.parse((await collect(exportLines("json", [], Readable.from(rows)))).join("")) as unknown;
+    assert.deepEqual(await json([]), []);
+    assert.deepEqual(await json([{ id: 1 }, { id: 2 }]), [{ id: 1 }, { id: 2 }]);
+    assert.equal((await collect(exportLines("ndjson", [], Readable.from([{ id: 1 }, { id: 2 }])))).join(""), '{"id":1}\n{"id":2}\n');
+});
+
+/* POST /api/users/import, GET /api/users/export */
+let server: TestServer;
+let admin: string;
+
+before(async () => {
+    server = await startTestServer();
+    admin = await login(server.url);
+});
+
+after(() => {
+    configureImport({ maxBytes: 10 * 1024 * 1024, maxRows: 10_000 });
+    return server.close();
+});
+
+async function importFile(contentType: string, file: string, query = ""): Promise<{ status: number; report: ImportReport; code?: string }> {
+    const response = await fetch(`${server.url}/api/users/import${query}`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${admin}`, "Content-Type": contentType },
+        body: file
+    });
+    const json = await response.json() as { data: ImportReport; code?: string };
+    return { status: response.status, report: json.data, ...(json.code !== undefined ? { code: json.code } : {}) };
+}
+
+async function exported(format: string): Promise<Response> {
+    return fetch(`${server.url}/api/users/export?format=${format}`, { headers: { Authorization: `Bearer ${admin}` } });
+}
+
+const CSV = [
+    "name,email,age,role",
+    "Erin,erin@example.com,29,",
+    "Erin again,erin@example.com,30,",   // same file
+    "Old,alice@example.com,50,",         // already a user
+    "Bad,not-an-email,-1,",
+    "Boss,boss@example.com,45,manager"
+].join("\n");
+
+test("a dry run reports every row and creates nothing", async () => {
+    const { status, report } = await importFile("text/csv", CSV, "?dryRun=true");
+    assert.equal(status, 200);
+    assert.deepEqual({ ...report, rows: report.rows.map(row => [row.line, row.status]) }, {
+        dryRun: true, created: 2, skipped: 2, failed: 1,
+        rows: [[2, "created"], [3, "skipped"], [4, "skipped"], [5, "failed"], [6, "created"]]
+    });
+    assert.deepEqual(report.rows[3]?.errors?.map(error => error.field), ["email", "age"]);
+    assert.equal((await (await exported("csv")).text()).includes("erin@example.com"), false);
+});
+
+test("an import creates the valid rows, then skips them the second time", async () => {
+    const { report } = await importFile("text/csv", CSV);
+    assert.deepEqual([report.created, report.skipped, report.failed], [2, 2, 1]);
+    assert.equal(typeof report.rows[0]?.id, "number");
+
+    const ndjson = '{"name":"Erin","email":"erin@example.com","age":29}\n{"name":"Finn","email":"finn@example.com","age":22}\n';
+    const again = await importFile("application/x-ndjson", ndjson);
+    assert.deepEqual(again.report.rows.map(row => row.status), ["skipped", "created"]);
+
+    const csv = await exported("csv");
+    assert.equal(csv.headers.get("Content-Type"), "text/csv; charset=utf-8");
+    assert.match(csv.headers.get("Content-Disposition") ?? "", /users\.csv/);
+    const lines = (await csv.text()).trimEnd().split("\r\n");
+    assert.equal(lines[0], "id,name,email,age,role,employeesUnder");
+    assert.equal(lines.length, 1 + 6);
+    assert.ok(lines.some(line => line.includes(",Boss,boss@example.com,45,manager,")));
+});
+
+test("over the row or byte limit the import stops with a 413", async () => {
+    configureImport({ maxRows: 2 });
+    const rows = await importFile("application/x-ndjson", '{}\n{}\n{}\n');
+    assert.equal(rows.status, 413);
+
+    configureImport({ maxRows: 10_000, maxBytes: 16 });
+    assert.equal((await importFile("text/csv", CSV)).status, 413);
+    // Streamed without a Content-Length: cut off while reading
+    const streamed = await fetch(`${server.url}/api/users/import`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${admin}`, "Content-Type": "text/csv" },
+        body: new ReadableStream({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode(CSV));
+                controller.close();
+            }
+        }),
+        duplex: "half"
+    } as RequestInit);
+    assert.equal(streamed.status, 413);
+    configureImport({ maxBytes: 10 * 1024 * 1024 });
+});
+
+test("other media types and export formats are refused", async () => {
+    assert.equal((await importFile("application/json", "{}")).status, 415);
+    assert.equal((await exported("xml")).status, 400);
+});
@@ -0,0 +1,72 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PublicUser } from '../users.ts';
+import { startTestServer, login, request, type TestServer } from './testServer.ts';
+
+let server: TestServer;
+let admin: string;
+
+before(async () => {
+    server = await startTestServer();
+    admin = await login(server.url);
+});
+
+after(() => server.close());
+
+async function call(method: string, path: string, body?: unknown): Promise<{ status: number; body: { data?: PublicUser; code?: string } }> {
+    const response = await request(server.url, admin, method, path, body);
+    return { status: response.status, body: response.status === 204 ? {} : await response.json() as { data?: PublicUser; code?: string } };
+}
+
+async function loginStatus(email: string, password: string): Promise<number> {
+    const response = await fetch(`${server.url}/api/auth/login`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password })
+    });
+    return response.status;
+}
+
+test("create, read, replace, patch and delete a user", async () => {
+    const created = await call("POST", "/api/users", { name: "Jane", email: "jane@example.com", age: 30, password: "jane-secret" });
+    assert.equal(created.status, 201);
+    const id = created.body.data!.id;
+    assert.equal("passwordHash" in created.body.data!, false);
+    assert.deepEqual((await call("GET", `/api/users/${id}`)).body.data, created.body.data);
+
+    // PUT replaces the fields it describes; a password left out is kept
+    const replaced = await call("PUT", `/api/users/${id}`, { name: "Jane Roe", email: "jroe@example.com", age: 31 });
+    assert.equal(replaced.status, 200);
+    assert.deepEqual(replaced.body.data, { id, name: "Jane Roe", email: "jroe@example.com", age: 31, role: "employee" });
+    assert.equal(await loginStatus("jroe@example.com", "jane-secret"), 200);
+
+    // PATCH only touches the fields sent
+    const patched = await call("PATCH", `/api/users/${id}`, { age: 32 });
+    assert.deepEqual(patched.body.data, { ...replaced.body.data, age: 32 });
+
+    assert.equal((await call("DELETE", `/api/users/${id}`)).status, 204);
+    assert.equal((await call("GET", `/api/users/${id}`)).status, 404);
+    assert.equal((await call("PATCH", `/api/users/${id}`, { age: 33 })).status, 404);
+});
+
+test("PUT needs the whole user, PATCH any valid subset", async () => {
+    const partial = await call("PUT", "/api/users/3", { name: "Charlie" });
+    assert.equal(partial.status, 400);
+    assert.equal(partial.body.code, "validation_failed");
+    assert.equal((await call("PATCH", "/api/users/3", { age: -1 })).status, 400);
+    assert.equal((await call("PATCH", "/api/users/3", {})).status, 200);
+});
+
+test("an email already taken by someone else is a 409; keeping one's own is fine", async () => {
+    assert.equal((await call("PATCH", "/api/users/3", { email: "bob@example.com" })).status, 409);
+    assert.equal((await call("PUT", "/api/users/3", { name: "Charlie", email: "alice@example.com", age: 25 })).status, 409);
+    assert.equal((await call("POST", "/api/users", { name: "Bob 2", email: "bob@example.com", age: 20 })).status, 409);
+    assert.equal((await call("PUT", "/api/users/3", { name: "Charlie", email: "charlie@example.com", age: 26 })).status, 200);
+});
+
+test("unknown and malformed ids", async () => {
+    assert.equal((await call("PUT", "/api/users/999", { name: "X", email: "x@example.com", age: 1 })).status, 404);
+    assert.equal((await call("DELETE", "/api/users/999")).status, 404);
+    const malformed = await call("GET", "/api/users/abc");
+    assert.equal(malformed.status, 400);
+});
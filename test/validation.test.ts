@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validate, isValid } from '../validation.ts';
+import { createUserSchema } from '../users.ts';
+
+const valid = { name: "Dana", email: "dana@example.com", age: 31 };
+
+test("a valid body has no issues", () => {
+    assert.deepEqual(validate(createUserSchema, valid), []);
+    assert.equal(isValid(createUserSchema, valid), true);
+});
+
+test("every problem is reported with its field and code", () => {
+    const issues = validate(createUserSchema, { name: "  ", email: "not-an-email", age: 12.5, extra: true });
+    assert.deepEqual(issues.map(i => [i.field, i.code]), [
+        ["name", "too_small"],
+        ["email", "invalid_format"],
+        ["age", "invalid_type"],
+        ["extra", "unknown_field"]
+    ]);
+});
+
+test("missing fields are required unless the body is partial", () => {
+    assert.deepEqual(validate(createUserSchema, {}).map(i => i.field), ["name", "email", "age"]);
+    assert.deepEqual(validate(createUserSchema, { age: 40 }, { partial: true }), []);
+    assert.equal(validate(createUserSchema, { age: -1 }, { partial: true })[0]?.code, "too_small");
+});
+
+test("only JSON objects are accepted", () => {
+    for (const body of [null, [], "text", 42]) {
+        assert.deepEqual(validate(createUserSchema, body), [{ field: "body", code: "invalid_type", message: "Expected a JSON object" }]);
+    }
+});
+
+test("array items are checked one by one", () => {
+    const issues = validate(createUserSchema, { ...valid, employeesUnder: [2, 0] });
+    assert.deepEqual(issues.map(i => i.field), ["employeesUnder[1]"]);
+});
+
+test("Object.prototype keys are unknown fields", () => {
+    const issues = validate(createUserSchema, JSON.parse('{"name":"Dana","email":"dana@example.com","age":31,"constructor":1}'));
+    assert.deepEqual(issues.map(i => [i.field, i.code]), [["constructor", "unknown_field"]]);
+});
@@ -0,0 +1,104 @@
+import type { Schema, ValidationIssue } from './validation.ts';
+import type { UserId } from './idGenerator.ts';
+import { publicUserSchema, type PublicUser } from './users.ts';
+
+/* BATCH OPERATIONS
+POST /api/users/batch runs a list of operations in order, each with the
+same checks as its single-user route:
+
+    { "op": "create", "data": { ...CreateUserInput } }
+    { "op": "update", "id": 3, "data": { "age": 26 } }     PATCH semantics
+    { "op": "delete", "id": 3 }                             soft delete
+
+By default each operation stands on its own: a failure only shows up in
+its own result. With ?atomic=true they run in one store transaction
+(see UserRepository.transaction): the first failure rolls back every
+operation before it and the rest are not attempted; both get a 424.
+Data is validated and passwords hashed before the transaction starts,
+since other requests wait for it to end*/
+export const MAX_BATCH_OPERATIONS = 1000;
+
+export type BatchOp = "create" | "update" | "delete";
+
+export const BATCH_OPS: readonly BatchOp[] = ["create", "update", "delete"];
+
+export interface BatchOperation {
+    op: BatchOp;
+    id?: UserId;                        // update, delete
+    data?: Record<string, unknown>;     // create, update; validated per operation
+}
+
+export interface BatchRequest {
+    operations: BatchOperation[];
+}
+
+export const batchRequestSchema: Schema<BatchRequest> = {
+    operations: {
+        type: "array", min: 1, max: MAX_BATCH_OPERATIONS,
+        items: {
+            type: "object",
+            fields: {
+                op: { type: "string", enum: BATCH_OPS },
+                id: { type: "id", optional: true },
+                data: { type: "object", optional: true }
+            }
+        }
+    }
+};
+
+/* RESULTS
+One per operation, in order. `status` is what the operation would have
+got from its own route (201, 200, 204, 4xx)*/
+export interface BatchError {
+    code: string;
+    message: string;
+    details?: ValidationIssue[];
+}
+
+export interface BatchResult {
+    index: number;
+    op: BatchOp;
+    status: number;
+    id?: UserId;
+    data?: PublicUser;      // create, update
+    error?: BatchError;
+}
+
+export interface BatchReport {
+    atomic: boolean;
+    committed: boolean;     // false when an atomic batch was rolled back
+    succeeded: number;
+    failed: number;
+    results: BatchResult[];
+}
+
+export const batchReportSchema: Schema<BatchReport> = {
+    atomic: { type: "boolean" },
+    committed: { type: "boolean" },
+    succeeded: { type: "number", integer: true },
+    failed: { type: "number", integer: true },
+    results: {
+        type: "array",
+        items: {
+            type: "object",
+            fields: {
+                index: { type: "number", integer: true },
+                op: { type: "string", enum: BATCH_OPS },
+                status: { type: "number", integer: true },
+                id: { type: "id", optional: true },
+                data: { type: "object", optional: true, fields: publicUserSchema },
+                error: {
+                    type: "object", optional: true,
+                    fields: {
+                        code: { type: "string" },
+                        message: { type: "string" },
+                        details: {
+                            type: "array", optional: true,
+                            items: { type: "object", fields: { field: { type: "string" }, code: { type: "string" }, message: { type: "string" } } }
+                        }
+                    }
+                }
+            }
+        }
+    }
+};
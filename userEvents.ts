@@ -0,0 +1,203 @@
+import type { Request, Response } from 'express';
+import type { PublicUser, UserData } from './users.ts';
+import type { UserId } from './idGenerator.ts';
+import { ServiceUnavailableError } from './errors.ts';
+import { getLifecycle } from './health.ts';
+
+/* USER EVENTS (Server-Sent Events)
+GET /api/users/events keeps the response open and writes one event per
+committed change, to subscribers allowed to read the user concerned:
+
+    id: lq3k1x2a-42
+    event: user.updated
+    data: {"at":"2024-05-01T09:30:00.000Z","user":{"id":3,"name":"Charlie",...}}
+
+Event ids are "<process start>-<sequence>". A client that reconnects
+with Last-Event-ID gets the events it missed from the replay buffer (the
+last `replaySize` events); when they are no longer there, or the server
+restarted in between, it gets a `reset` event instead and should reload
+the list. A comment line goes out every `heartbeatSeconds` so proxies
+do not close idle streams.
+
+The stream ends when the caller's access token expires, and the caller
+is checked again (token revoked? user deleted? role changed?) before
+events go out; the client then reconnects with a fresh token*/
+export type UserEventType = "user.created" | "user.updated" | "user.deleted";
+
+export interface UserEventPayloads {
+    "user.created": { user: PublicUser };
+    "user.updated": { user: PublicUser };
+    "user.deleted": { id: UserId };
+}
+
+export interface UserEvent<K extends UserEventType = UserEventType> {
+    id: string;
+    type: K;
+    at: string;     // ISO 8601
+    data: UserEventPayloads[K];
+}
+
+// `subject` (the stored user, credentials included) never leaves the server: it decides who may see the event
+interface BufferedEvent {
+    seq: number;
+    event: UserEvent;
+    subject: UserData;
+}
+
+// What the subscriber may see as of now, or undefined when they may no longer listen
+export type EventAccess = () => Promise<((subject: UserData) => boolean) | undefined>;
+
+interface EventStream {
+    res: Response;
+    access: EventAccess;
+    pending: BufferedEvent[];   // waiting for the access check, kept in order
+    sending: boolean;
+    heartbeat?: NodeJS.Timeout;
+    expiry?: NodeJS.Timeout;
+}
+
+/* SETTINGS */
+interface UserEventSettings {
+    replaySize: number;
+    heartbeatSeconds: number;
+}
+
+let settings: UserEventSettings = {
+    replaySize: 1000,
+    heartbeatSeconds: 15
+};
+
+export function configureUserEvents(options: { [K in keyof UserEventSettings]?: UserEventSettings[K] | undefined }): void {
+    settings = {
+        replaySize: options.replaySize ?? settings.replaySize,
+        heartbeatSeconds: options.heartbeatSeconds ?? settings.heartbeatSeconds
+    };
+}
+
+/* HUB */
+const epoch = Date.now().toString(36);
+let seq = 0;
+let buffer: BufferedEvent[] = [];
+const streams = new Set<EventStream>();
+
+// A client this far behind is cut off; it reconnects and catches up from the buffer
+const MAX_PENDING_BYTES = 1024 * 1024;
+const RETRY_MS = 3000;
+// setTimeout() fires at once above this (~24.8 days)
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+export function publishUserEvent<K extends UserEventType>(type: K, subject: UserData, data: UserEventPayloads[K]): void {
+    const buffered: BufferedEvent = {
+        seq: ++seq,
+        event: { id: `${epoch}-${seq}`, type, at: new Date().toISOString(), data },
+        subject
+    };
+    buffer.push(buffered);
+    if (buffer.length > settings.replaySize) buffer = buffer.slice(-settings.replaySize);
+    for (const stream of streams) send(stream, buffered);
+}
+
+// The events after `lastEventId`, or undefined when some of them are gone
+function missedSince(lastEventId: string): BufferedEvent[] | undefined {
+    const match = /^([0-9a-z]+)-(\d+)$/.exec(lastEventId);
+    if (!match || match[1] !== epoch) return undefined;
+    const last = Number(match[2]);
+    const oldest = buffer[0]?.seq ?? seq + 1;
+    if (last > seq || last < oldest - 1) return undefined;
+    return buffer.filter(b => b.seq > last);
+}
+
+function send(stream: EventStream, buffered: BufferedEvent): void {
+    if (stream.pending.length >= settings.replaySize) {
+        drop(stream);
+        return;
+    }
+    stream.pending.push(buffered);
+    if (!stream.sending) void flush(stream);
+}
+
+// One access check per round, for every event that queued up while the previous one ran
+async function flush(stream: EventStream): Promise<void> {
+    stream.sending = true;
+    try {
+        while (stream.pending.length > 0 && streams.has(stream)) {
+            const canSee = await stream.access();
+            if (!canSee) {
+                end(stream);
+                return;
+            }
+            for (const { event, subject } of stream.pending.splice(0)) {
+                if (!canSee(subject)) continue;
+                const data = JSON.stringify({ at: event.at, ...event.data });
+                write(stream, `id: ${event.id}\nevent: ${event.type}\ndata: ${data}\n\n`);
+            }
+        }
+    } catch (err) {
+        stream.res.locals.log?.error("event stream access check failed", { err });
+        end(stream);
+    } finally {
+        stream.sending = false;
+    }
+}
+
+function write(stream: EventStream, chunk: string): void {
+    const { res } = stream;
+    if (res.writableEnded || res.destroyed) return;
+    if (res.writableLength > MAX_PENDING_BYTES) {
+        drop(stream);
+        return;
+    }
+    res.write(chunk);
+}
+
+// No more events nor heartbeats for this stream
+function detach(stream: EventStream): void {
+    clearInterval(stream.heartbeat);
+    clearTimeout(stream.expiry);
+    stream.pending = [];
+    streams.delete(stream);
+}
+
+function end(stream: EventStream): void {
+    detach(stream);
+    if (!stream.res.writableEnded) stream.res.end();
+}
+
+// For a client that is not reading: end() would queue behind what it has not read yet
+function drop(stream: EventStream): void {
+    detach(stream);
+    stream.res.destroy();
+}
+
+/* STREAM
+`access` is called again before events go out (see EventAccess);
+`expiresAt` (ms since epoch) is when the caller's token runs out*/
+export function openEventStream(req: Request, res: Response, expiresAt: number, access: EventAccess): void {
+    if (getLifecycle() === "draining") throw new ServiceUnavailableError("Shutting down, reconnect later");
+
+    res.status(200).set({
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        "X-Accel-Buffering": "no"       // nginx would otherwise hold events back
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RETRY_MS}\n\n`);
+
+    const stream: EventStream = { res, access, pending: [], sending: false };
+    streams.add(stream);
+    const lastEventId = req.get("Last-Event-ID");
+    if (lastEventId !== undefined) {
+        const missed = missedSince(lastEventId);
+        if (missed) missed.forEach(buffered => send(stream, buffered));
+        else write(stream, `event: reset\ndata: {"reason":"Missed events are no longer available, reload the list"}\n\n`);
+    }
+
+    stream.heartbeat = setInterval(() => write(stream, `: heartbeat\n\n`), settings.heartbeatSeconds * 1000);
+    stream.expiry = setTimeout(() => end(stream), Math.min(Math.max(0, expiresAt - Date.now()), MAX_TIMER_MS));
+    res.on("close", () => detach(stream));
+}
+
+// Shutdown: open streams would keep the server from closing; clients reconnect to another instance
+export function closeEventStreams(): void {
+    for (const stream of streams) end(stream);
+}
@@ -0,0 +1,247 @@
+import type { UserData } from './users.ts';
+import { createIdGenerator, type IdGenerator, type UserId } from './idGenerator.ts';
+import { JsonFile } from './jsonFile.ts';
+
+// Everything but the id, which the repository allocates
+export type NewUserData = Omit<UserData, "id">;
+
+/* REPOSITORY CONTRACT
+Handlers in users.ts only talk to this interface, so the storage
+backend can be swapped (in-memory for tests, JSON file for dev)*/
+export interface UserRepository {
+    // Validates a raw route param against the configured id format
+    parseId(raw: string): UserId | undefined;
+    findAll(): Promise<UserData[]>;
+    // One user at a time, for exports that must not copy the whole store
+    iterate(): AsyncIterable<UserData>;
+    findById(id: UserId): Promise<UserData | undefined>;
+    findByEmail(email: string): Promise<UserData | undefined>;
+    create(input: NewUserData): Promise<UserData>;
+    // Stores `user` under its id; resolves undefined when the id does not exist
+    update(user: UserData, precondition?: Precondition): Promise<UserData | undefined>;
+    delete(id: UserId, precondition?: Precondition): Promise<boolean>;
+    // Runs `work` against `tx`: if it throws, none of its writes are kept.
+    // Other callers wait until it is over; `tx` must not be used afterwards
+    transaction<T>(work: (tx: UserRepository) => Promise<T>): Promise<T>;
+}
+
+// Runs on the stored user right before a write, with nothing in between
+// (e.g. the If-Match check); throwing cancels the write
+export type Precondition = (current: UserData) => void;
+
+/* IN-MEMORY IMPLEMENTATION
+Data lives in an array and is lost on restart.
+Every public method first waits for a running transaction to end, then
+does its work synchronously: nothing can slip in between, so a
+transaction never sees (or rolls back) someone else's write*/
+export class InMemoryUserRepository implements UserRepository {
+    protected users: UserData[];
+    protected ids: IdGenerator;
+    // Settles when the running transaction ends; undefined when there is none
+    private running: Promise<void> | undefined;
+
+    constructor(seed: UserData[] = [], ids: IdGenerator = createIdGenerator()) {
+        // Copy the seed so the caller's array is never mutated
+        this.users = seed.map(u => ({ ...u }));
+        this.ids = ids;
+        this.users.forEach(u => this.ids.advanceTo(u.id));
+    }
+
+    parseId(raw: string): UserId | undefined {
+        return this.ids.parse(raw);
+    }
+
+    async findAll(): Promise<UserData[]> {
+        return this.read(() => this.users.map(u => ({ ...u })));
+    }
+
+    // Walks a snapshot of the references, so writes during an export cannot skip or repeat a user
+    async *iterate(): AsyncIterable<UserData> {
+        yield* this.walk(await this.read(() => [...this.users]));
+    }
+
+    async findById(id: UserId): Promise<UserData | undefined> {
+        return this.read(() => this.select(u => u.id === id));
+    }
+
+    async findByEmail(email: string): Promise<UserData | undefined> {
+        return this.read(() => this.select(u => u.email === email));
+    }
+
+    async create(input: NewUserData): Promise<UserData> {
+        return this.write(() => this.insert(input));
+    }
+
+    async update(user: UserData, precondition?: Precondition): Promise<UserData | undefined> {
+        return this.write(() => this.replace(user, precondition));
+    }
+
+    async delete(id: UserId, precondition?: Precondition): Promise<boolean> {
+        return this.write(() => this.remove(id, precondition));
+    }
+
+    /* TRANSACTIONS
+    Records are replaced, never mutated in place, so a copy of the array
+    is enough to roll back. The store is saved once, on commit. Ids handed
+    out by a rolled-back transaction are not reused*/
+    async transaction<T>(work: (tx: UserRepository) => Promise<T>): Promise<T> {
+        while (this.running) await this.running;
+        let end!: () => void;
+        this.running = new Promise(resolve => end = resolve);
+        const snapshot = [...this.users];
+        try {
+            const result = await work(this.transactionView());
+            await this.persist();
+            return result;
+        } catch (err) {
+            this.users = snapshot;
+            throw err;
+        } finally {
+            this.running = undefined;
+            end();
+        }
+    }
+
+    // The same operations, without waiting (the transaction is the one running) nor saving
+    private transactionView(): UserRepository {
+        const tx: UserRepository = {
+            parseId: raw => this.parseId(raw),
+            findAll: async () => this.users.map(u => ({ ...u })),
+            iterate: () => this.walk([...this.users]),
+            findById: async id => this.select(u => u.id === id),
+            findByEmail: async email => this.select(u => u.email === email),
+            create: async input => this.insert(input),
+            update: async (user, precondition) => this.replace(user, precondition),
+            delete: async (id, precondition) => this.remove(id, precondition),
+            // A nested transaction is part of the outer one
+            transaction: work => work(tx)
+        };
+        return tx;
+    }
+
+    private async read<T>(fn: () => T): Promise<T> {
+        while (this.running) await this.running;
+        return fn();
+    }
+
+    // persist() is called in the same tick as the change, so it saves exactly that state
+    private async write<T>(change: () => T): Promise<T> {
+        while (this.running) await this.running;
+        const result = change();
+        await this.persist();
+        return result;
+    }
+
+    private async *walk(users: UserData[]): AsyncIterable<UserData> {
+        for (const user of users) yield { ...user };
+    }
+
+    private select(predicate: (user: UserData) => boolean): UserData | undefined {
+        const user = this.users.find(predicate);
+        return user && { ...user };
+    }
+
+    private insert(input: NewUserData): UserData {
+        const newUser: UserData = { id: this.ids.next(), ...input };
+        this.users.push(newUser);
+        return { ...newUser };
+    }
+
+    private replace(user: UserData, precondition?: Precondition): UserData | undefined {
+        const index = this.users.findIndex(u => u.id === user.id);
+        if (index === -1) return undefined;
+        precondition?.({ ...this.users[index]! });
+        this.users[index] = { ...user };
+        return { ...user };
+    }
+
+    private remove(id: UserId, precondition?: Precondition): boolean {
+        const index = this.users.findIndex(u => u.id === id);
+        if (index === -1) return false;
+        precondition?.({ ...this.users[index]! });
+        this.users.splice(index, 1);
+        return true;
+    }
+
+    // Hook for subclasses that need to save after every write
+    protected async persist(): Promise<void> {}
+}
+
+/* JSON FILE IMPLEMENTATION
+Keeps the in-memory array as a cache and rewrites the whole file
+atomically (see jsonFile.ts) after each mutation*/
+interface UserFileContents {
+    users: UserData[];
+    // Last counter id handed out, so deleted ids are not reused after a restart
+    lastId?: number | undefined;
+}
+
+export class JsonFileUserRepository extends InMemoryUserRepository {
+    private file: JsonFile<UserFileContents>;
+    private loaded: Promise<void> | undefined;
+
+    constructor(filePath: string, seed: UserData[] = [], ids?: IdGenerator) {
+        super(seed, ids);
+        this.file = new JsonFile(filePath);
+    }
+
+    // Reads the file once; a missing file means "start from the seed"
+    private load(): Promise<void> {
+        this.loaded ??= this.file.read().then(contents => {
+            if (!contents) return;
+            this.users = contents.users;
+            this.users.forEach(u => this.ids.advanceTo(u.id));
+            if (contents.lastId !== undefined) this.ids.advanceTo(contents.lastId);
+        });
+        return this.loaded;
+    }
+
+    override async findAll(): Promise<UserData[]> {
+        await this.load();
+        return super.findAll();
+    }
+
+    override async *iterate(): AsyncIterable<UserData> {
+        await this.load();
+        yield* super.iterate();
+    }
+
+    override async findById(id: UserId): Promise<UserData | undefined> {
+        await this.load();
+        return super.findById(id);
+    }
+
+    override async findByEmail(email: string): Promise<UserData | undefined> {
+        await this.load();
+        return super.findByEmail(email);
+    }
+
+    override async create(input: NewUserData): Promise<UserData> {
+        await this.load();
+        return super.create(input);
+    }
+
+    override async update(user: UserData, precondition?: Precondition): Promise<UserData | undefined> {
+        await this.load();
+        return super.update(user, precondition);
+    }
+
+    override async delete(id: UserId, precondition?: Precondition): Promise<boolean> {
+        await this.load();
+        return super.delete(id, precondition);
+    }
+
+    override async transaction<T>(work: (tx: UserRepository) => Promise<T>): Promise<T> {
+        await this.load();
+        return super.transaction(work);
+    }
+
+    protected override persist(): Promise<void> {
+        return this.file.write({ users: this.users, lastId: this.ids.lastIssued() });
+    }
+
+    // Waits for pending writes, so a shutdown never cuts one short
+    flush(): Promise<void> {
+        return this.file.flush();
+    }
+}
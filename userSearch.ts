@@ -0,0 +1,255 @@
+import type { UserData } from './users.ts';
+import type { NewUserData, Precondition, UserRepository } from './userRepository.ts';
+import type { UserId } from './idGenerator.ts';
+
+/* INVERTED INDEX
+Maps every token found in a user's name/email to the users containing it:
+
+    "alice"   → { 1 → 2 }        (user 1, found in name: weight 2)
+    "example" → { 1 → 1, 2 → 1 } (found in emails: weight 1)
+
+A query token is compared against the whole vocabulary, so "charly"
+still finds "charlie" (typo) and "ali" finds "alice" (prefix)*/
+const FIELD_WEIGHTS = { name: 2, email: 1 } as const;
+
+export interface SearchHit {
+    user: UserData;
+    score: number;
+}
+
+// The best `limit` hits, and how many matched in all
+export interface SearchResults {
+    hits: SearchHit[];
+    total: number;
+}
+
+export function tokenize(text: string): string[] {
+    return text
+        .toLowerCase()
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")   // strip accents: "José" → "jose"
+        .split(/[^a-z0-9]+/)
+        .filter(token => token.length > 0);
+}
+
+// Typos allowed for a query token: none for short ones, 2 for long ones
+function maxEdits(token: string): number {
+    if (token.length <= 3) return 0;
+    return token.length <= 5 ? 1 : 2;
+}
+
+// Levenshtein distance with adjacent swaps ("exmaple"), giving up above `limit`
+function editDistance(a: string, b: string, limit: number): number {
+    if (Math.abs(a.length - b.length) > limit) return limit + 1;
+    let prevPrev: number[] = [];
+    let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const row = [i];
+        let rowMin = i;
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            let value = Math.min((prev[j] ?? 0) + 1, (row[j - 1] ?? 0) + 1, (prev[j - 1] ?? 0) + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                value = Math.min(value, (prevPrev[j - 2] ?? 0) + 1);
+            }
+            row.push(value);
+            rowMin = Math.min(rowMin, value);
+        }
+        if (rowMin > limit) return limit + 1;
+        prevPrev = prev;
+        prev = row;
+    }
+    return prev[b.length] ?? limit + 1;
+}
+
+// How well one query token matches one indexed term (0 = no match)
+function termScore(query: string, term: string): number {
+    if (query === term) return 1;
+    if (query.length >= 2 && term.startsWith(query)) return 0.8;
+    const limit = maxEdits(query);
+    if (limit === 0) return 0;
+    const distance = editDistance(query, term, limit);
+    if (distance <= limit) return 0.7 - 0.2 * (distance - 1);
+    // Typo inside a prefix: "exmpl" → "exampl(e)"
+    const prefixDistance = editDistance(query, term.slice(0, query.length), limit);
+    return prefixDistance <= limit ? 0.5 - 0.2 * (prefixDistance - 1) : 0;
+}
+
+export class UserSearchIndex {
+    private postings = new Map<string, Map<UserId, number>>();
+    private documents = new Map<UserId, UserData>();
+
+    add(user: UserData): void {
+        this.remove(user.id);
+        this.documents.set(user.id, user);
+        for (const field of Object.keys(FIELD_WEIGHTS) as (keyof typeof FIELD_WEIGHTS)[]) {
+            for (const token of tokenize(user[field])) {
+                const users = this.postings.get(token) ?? new Map<UserId, number>();
+                users.set(user.id, Math.max(users.get(user.id) ?? 0, FIELD_WEIGHTS[field]));
+                this.postings.set(token, users);
+            }
+        }
+    }
+
+    remove(id: UserId): void {
+        const user = this.documents.get(id);
+        if (!user) return;
+        this.documents.delete(id);
+        for (const token of tokenize(`${user.name} ${user.email}`)) {
+            const users = this.postings.get(token);
+            users?.delete(id);
+            if (users?.size === 0) this.postings.delete(token);
+        }
+    }
+
+    // Score = average over query tokens of (best term match × field weight).
+    // Users rejected by `filter` (e.g. not readable by the caller) are neither ranked nor counted
+    search(query: string, limit: number, filter: (user: UserData) => boolean = () => true): SearchResults {
+        const tokens = tokenize(query);
+        if (tokens.length === 0) return { hits: [], total: 0 };
+
+        const totals = new Map<UserId, number>();
+        for (const token of tokens) {
+            const best = new Map<UserId, number>();
+            for (const [term, users] of this.postings) {
+                const score = termScore(token, term);
+                if (score === 0) continue;
+                for (const [id, weight] of users) {
+                    best.set(id, Math.max(best.get(id) ?? 0, score * weight));
+                }
+            }
+            for (const [id, score] of best) {
+                totals.set(id, (totals.get(id) ?? 0) + score);
+            }
+        }
+
+        const hits: SearchHit[] = [];
+        for (const [id, total] of totals) {
+            const user = this.documents.get(id);
+            if (user && filter(user)) hits.push({ user, score: Math.round((total / tokens.length) * 1000) / 1000 });
+        }
+        hits.sort((a, b) => b.score - a.score || String(a.user.id).localeCompare(String(b.user.id)));
+        return { hits: hits.slice(0, limit), total: hits.length };
+    }
+}
+
+/* REPOSITORY DECORATOR
+Wraps any UserRepository and updates the index after every successful
+write, so the index never drifts from the store it mirrors. Writes made
+inside a transaction are staged and only reach the index on commit, so
+searches never see uncommitted users*/
+export class SearchableUserRepository implements UserRepository {
+    private inner: UserRepository;
+    private index: UserSearchIndex;
+    private built: Promise<void> | undefined;
+
+    constructor(inner: UserRepository) {
+        this.inner = inner;
+        this.index = new UserSearchIndex();
+    }
+
+    // Indexes the existing users on first use
+    private ensureIndexed(): Promise<void> {
+        this.built ??= this.inner.findAll().then(users => users.forEach(u => this.index.add(u)));
+        return this.built;
+    }
+
+    async search(query: string, limit: number, filter?: (user: UserData) => boolean): Promise<SearchResults> {
+        await this.ensureIndexed();
+        return this.index.search(query, limit, filter);
+    }
+
+    parseId(raw: string): UserId | undefined {
+        return this.inner.parseId(raw);
+    }
+
+    findAll(): Promise<UserData[]> {
+        return this.inner.findAll();
+    }
+
+    iterate(): AsyncIterable<UserData> {
+        return this.inner.iterate();
+    }
+
+    findById(id: UserId): Promise<UserData | undefined> {
+        return this.inner.findById(id);
+    }
+
+    findByEmail(email: string): Promise<UserData | undefined> {
+        return this.inner.findByEmail(email);
+    }
+
+    async create(input: NewUserData): Promise<UserData> {
+        await this.ensureIndexed();
+        const user = await this.inner.create(input);
+        this.index.add(user);
+        return user;
+    }
+
+    async update(user: UserData, precondition?: Precondition): Promise<UserData | undefined> {
+        await this.ensureIndexed();
+        const updated = await this.inner.update(user, precondition);
+        if (updated) this.index.add(updated);
+        return updated;
+    }
+
+    async delete(id: UserId, precondition?: Precondition): Promise<boolean> {
+        await this.ensureIndexed();
+        const deleted = await this.inner.delete(id, precondition);
+        if (deleted) this.index.remove(id);
+        return deleted;
+    }
+
+    // The staged changes are applied once `work` has succeeded, while the
+    // store is still held; if the commit fails after that, the index is
+    // rebuilt from the store on next use
+    async transaction<T>(work: (tx: UserRepository) => Promise<T>): Promise<T> {
+        await this.ensureIndexed();
+        let applied = false;
+        try {
+            return await this.inner.transaction(async tx => {
+                const staged: IndexChange[] = [];
+                const result = await work(stagedRepository(tx, staged));
+                for (const change of staged) change(this.index);
+                applied = true;
+                return result;
+            });
+        } catch (err) {
+            if (applied) {
+                this.index = new UserSearchIndex();
+                this.built = undefined;
+            }
+            throw err;
+        }
+    }
+}
+
+type IndexChange = (index: UserSearchIndex) => void;
+
+// `tx` with its writes recorded in `staged` instead of indexed right away
+function stagedRepository(tx: UserRepository, staged: IndexChange[]): UserRepository {
+    const repo: UserRepository = {
+        parseId: raw => tx.parseId(raw),
+        findAll: () => tx.findAll(),
+        iterate: () => tx.iterate(),
+        findById: id => tx.findById(id),
+        findByEmail: email => tx.findByEmail(email),
+        create: async input => {
+            const user = await tx.create(input);
+            staged.push(index => index.add(user));
+            return user;
+        },
+        update: async (user, precondition) => {
+            const updated = await tx.update(user, precondition);
+            if (updated) staged.push(index => index.add(updated));
+            return updated;
+        },
+        delete: async (id, precondition) => {
+            const deleted = await tx.delete(id, precondition);
+            if (deleted) staged.push(index => index.remove(id));
+            return deleted;
+        },
+        transaction: work => tx.transaction(inner => work(inner === tx ? repo : stagedRepository(inner, staged)))
+    };
+    return repo;
+}
@@ -0,0 +1,310 @@
+import { createInterface } from 'node:readline';
+import { Readable } from 'node:stream';
+import type { Request } from 'express';
+import type { FieldRule, Schema, ValidationIssue } from './validation.ts';
+import type { UserId } from './idGenerator.ts';
+import { PayloadTooLargeError } from './errors.ts';
+
+/* BULK IMPORT / EXPORT
+Formats for POST /api/users/import and GET /api/users/export. Both
+sides work one row at a time: imports are parsed from the request
+stream as it arrives, exports are written as the store is walked, so
+neither holds a whole file in memory.
+
+CSV follows RFC 4180 (quoted fields may contain commas, quotes and
+newlines); the first row names the columns. Array cells list their
+items separated by ";" (e.g. employeesUnder = "2;3")*/
+export type ImportFormat = "csv" | "ndjson";
+export type ExportFormat = "csv" | "ndjson" | "json";
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ["csv", "ndjson", "json"];
+
+export const EXPORT_MEDIA_TYPES: Record<ExportFormat, string> = {
+    csv: "text/csv; charset=utf-8",
+    ndjson: "application/x-ndjson",
+    json: "application/json; charset=utf-8"
+};
+
+/* IMPORT REPORT */
+export type ImportStatus = "created" | "skipped" | "failed";
+
+export interface ImportRowResult {
+    line: number;               // where the row starts in the file (1-based; the CSV header is line 1)
+    status: ImportStatus;       // in a dry run, "created" means "would be created"
+    id?: UserId;                // created rows, unless dry run
+    email?: string;
+    reason?: string;            // skipped and failed rows
+    errors?: ValidationIssue[]; // failed validation
+}
+
+export interface ImportReport {
+    dryRun: boolean;
+    created: number;
+    skipped: number;
+    failed: number;
+    rows: ImportRowResult[];
+}
+
+export const importReportSchema: Schema<ImportReport> = {
+    dryRun: { type: "boolean" },
+    created: { type: "number", integer: true },
+    skipped: { type: "number", integer: true },
+    failed: { type: "number", integer: true },
+    rows: {
+        type: "array",
+        items: {
+            type: "object",
+            fields: {
+                line: { type: "number", integer: true },
+                status: { type: "string", enum: ["created", "skipped", "failed"] },
+                id: { type: "id", optional: true },
+                email: { type: "string", optional: true },
+                reason: { type: "string", optional: true },
+                errors: {
+                    type: "array", optional: true,
+                    items: { type: "object", fields: { field: { type: "string" }, code: { type: "string" }, message: { type: "string" } } }
+                }
+            }
+        }
+    }
+};
+
+/* IMPORT LIMITS
+express.json()'s bodyLimit does not apply to a streamed import, so it
+has its own caps: past `maxBytes` of body or `maxRows` rows the import
+stops with a 413 (rows already created are kept). `maxRows` also bounds
+the size of the report*/
+interface ImportLimits {
+    maxBytes: number;
+    maxRows: number;
+}
+
+let limits: ImportLimits = {
+    maxBytes: 10 * 1024 * 1024,
+    maxRows: 10_000
+};
+
+export function configureImport(options: { [K in keyof ImportLimits]?: ImportLimits[K] | undefined }): void {
+    limits = {
+        maxBytes: options.maxBytes ?? limits.maxBytes,
+        maxRows: options.maxRows ?? limits.maxRows
+    };
+}
+
+// The request body, cut off with a 413 once it passes maxBytes (at once when Content-Length says so)
+export function limitedBody(req: Request): Readable {
+    const tooLarge = () => new PayloadTooLargeError(`Import is larger than ${limits.maxBytes} bytes`);
+    if (Number(req.get("Content-Length") ?? 0) > limits.maxBytes) throw tooLarge();
+    async function* chunks(): AsyncGenerator<Buffer> {
+        let received = 0;
+        for await (const chunk of req as AsyncIterable<Buffer>) {
+            received += chunk.length;
+            if (received > limits.maxBytes) throw tooLarge();
+            yield chunk;
+        }
+    }
+    return Readable.from(chunks(), { objectMode: false });
+}
+
+// 413 on the row after maxRows
+export async function* limitedRows(records: AsyncIterable<ImportRecord>): AsyncGenerator<ImportRecord> {
+    let rows = 0;
+    for await (const record of records) {
+        if (++rows > limits.maxRows) throw new PayloadTooLargeError(`Import has more than ${limits.maxRows} rows`);
+        yield record;
+    }
+}
+
+/* IMPORT RECORDS
+One per data row: `value` is ready for validate(), `error` means the
+row could not even be parsed (bad JSON, unterminated quote...)*/
+export type ImportRecord =
+    | { line: number; value: Record<string, unknown> }
+    | { line: number; error: string };
+
+/* CSV PARSER
+A small state machine fed chunk by chunk, so a quoted field may be
+split across chunks*/
+interface CsvRecord {
+    line: number;
+    cells: string[];
+    error?: string;
+}
+
+async function* parseCsv(input: Readable): AsyncGenerator<CsvRecord> {
+    input.setEncoding("utf8");
+    let cells: string[] = [];
+    let cell = "";
+    let state: "unquoted" | "quoted" | "quote" = "unquoted";
+    let line = 1;
+    let recordLine = 1;
+    let first = true;
+
+    const endRecord = (): CsvRecord | undefined => {
+        cells.push(cell);
+        const record = { line: recordLine, cells };
+        cells = [];
+        cell = "";
+        recordLine = line;
+        // Blank lines are not records
+        return record.cells.length === 1 && record.cells[0] === "" ? undefined : record;
+    };
+
+    for await (const chunk of input as AsyncIterable<string>) {
+        // Spreadsheets often start the file with a byte order mark
+        const text = first ? chunk.replace(/^\uFEFF/, "") : chunk;
+        first = false;
+        for (const ch of text) {
+            if (state === "quoted") {
+                if (ch === '"') state = "quote";
+                else {
+                    if (ch === "\n") line++;
+                    cell += ch;
+                }
+                continue;
+            }
+            if (state === "quote") {
+                state = "unquoted";
+                if (ch === '"') {
+                    // "" inside quotes is an escaped quote
+                    cell += '"';
+                    state = "quoted";
+                    continue;
+                }
+            }
+            if (ch === ",") {
+                cells.push(cell);
+                cell = "";
+            } else if (ch === "\n") {
+                line++;
+                const record = endRecord();
+                if (record) yield record;
+            } else if (ch === '"' && cell === "") {
+                state = "quoted";
+            } else if (ch !== "\r") {
+                cell += ch;
+            }
+        }
+    }
+
+    if (state === "quoted") {
+        yield { line: recordLine, cells: [], error: "Unterminated quoted field" };
+        return;
+    }
+    const record = endRecord();
+    if (record) yield record;
+}
+
+// Text starting with = + - @ (or a tab / CR) would run as a formula once opened
+// in a spreadsheet: the export prefixes it with ', the import takes that back off.
+// Text that already starts with ' before one of them gets one more, so the
+// round trip gives back exactly what was exported
+const FORMULA = /^'*[=+\-@\t\r]/;
+
+// CSV cells are text: numbers, ids and arrays are converted back following the schema
+function fromCsvCell(rule: FieldRule | undefined, cell: string): unknown {
+    switch (rule?.type) {
+        case "number":
+            return /^[+-]?\d+(\.\d+)?$/.test(cell.trim()) ? Number(cell) : cell;
+        case "id":
+            return /^\d+$/.test(cell.trim()) ? Number(cell) : cell.trim();
+        case "array":
+            return cell.split(";").map(item => item.trim()).filter(item => item !== "").map(item => fromCsvCell(rule.items, item));
+        default:
+            return cell.startsWith("'") && FORMULA.test(cell) ? cell.slice(1) : cell;
+    }
+}
+
+// Empty cells are left out, so optional fields can be blank
+export async function* csvRecords<T>(input: Readable, schema: Schema<T>): AsyncGenerator<ImportRecord> {
+    const rules = schema as Record<string, FieldRule>;
+    let columns: string[] | undefined;
+    for await (const record of parseCsv(input)) {
+        if (record.error !== undefined) {
+            yield { line: record.line, error: record.error };
+            continue;
+        }
+        if (!columns) {
+            columns = record.cells.map(column => column.trim());
+            continue;
+        }
+        if (record.cells.length > columns.length) {
+            yield { line: record.line, error: `Expected at most ${columns.length} columns, got ${record.cells.length}` };
+            continue;
+        }
+        const value: Record<string, unknown> = {};
+        for (const [index, column] of columns.entries()) {
+            const cell = record.cells[index];
+            if (cell === undefined || cell === "") continue;
+            value[column] = fromCsvCell(rules[column], cell);
+        }
+        yield { line: record.line, value };
+    }
+}
+
+/* NDJSON: one JSON object per line, blank lines ignored */
+export async function* ndjsonRecords(input: Readable): AsyncGenerator<ImportRecord> {
+    const lines = createInterface({ input, crlfDelay: Infinity });
+    let line = 0;
+    for await (const text of lines) {
+        line++;
+        if (text.trim() === "") continue;
+        let value: unknown;
+        try {
+            value = JSON.parse(text);
+        } catch {
+            yield { line, error: "Invalid JSON" };
+            continue;
+        }
+        if (typeof value !== "object" || value === null || Array.isArray(value)) {
+            yield { line, error: "Expected a JSON object" };
+            continue;
+        }
+        yield { line, value: value as Record<string, unknown> };
+    }
+}
+
+/* EXPORT
+Each generator yields the file piece by piece; the caller pipes it to
+the response*/
+
+function toCsvCell(value: unknown): string {
+    let text: string;
+    if (value === undefined || value === null) text = "";
+    else if (Array.isArray(value)) text = value.join(";");
+    else if (typeof value === "string") text = FORMULA.test(value) ? `'${value}` : value;
+    else text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function* toCsv(columns: readonly string[], rows: AsyncIterable<Record<string, unknown>>): AsyncGenerator<string> {
+    yield columns.map(toCsvCell).join(",") + "\r\n";
+    for await (const row of rows) {
+        yield columns.map(column => toCsvCell(row[column])).join(",") + "\r\n";
+    }
+}
+
+async function* toNdjson(rows: AsyncIterable<unknown>): AsyncGenerator<string> {
+    for await (const row of rows) yield JSON.stringify(row) + "\n";
+}
+
+async function* toJsonArray(rows: AsyncIterable<unknown>): AsyncGenerator<string> {
+    let separator = "[\n";
+    for await (const row of rows) {
+        yield separator + JSON.stringify(row);
+        separator = ",\n";
+    }
+    yield separator === "[\n" ? "[]\n" : "\n]\n";
+}
+
+// `columns` only matters for CSV; JSON formats keep every field of each row
+export function exportLines(format: ExportFormat, columns: readonly string[], rows: AsyncIterable<Record<string, unknown>>): AsyncGenerator<string> {
+    switch (format) {
+        case "csv":
+            return toCsv(columns, rows);
+        case "ndjson":
+            return toNdjson(rows);
+        case "json":
+            return toJsonArray(rows);
+    }
+}
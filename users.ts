@@ -1,43 +1,736 @@
 import type { Request, Response } from 'express';
+import { pipeline } from 'node:stream/promises';
+import { Readable } from 'node:stream';
+import { validate, type Schema } from './validation.ts';
+import { InMemoryUserRepository, type NewUserData, type Precondition, type UserRepository } from './userRepository.ts';
+import type { UserId } from './idGenerator.ts';
+import { parseListQuery, applyListQuery, buildLink, DEFAULT_LIMIT, MAX_LIMIT, type ListFields } from './listQuery.ts';
+import { SearchableUserRepository } from './userSearch.ts';
+import {
+    HttpError, ConflictError, ForbiddenError, NotFoundError, UnauthorizedError, UnsupportedMediaTypeError, ValidationError
+} from './errors.ts';
+import { sendSuccess, type ApiResponse } from './apiResponse.ts';
+import { hashPassword, hashPasswordSync, verifyPassword } from './passwords.ts';
+import { AccessPolicy, ROLES, type Role } from './policy.ts';
+import { assertIfMatch, strongEtag } from './etag.ts';
+import { getAuditLog, recordChange, type AuditAction, type AuditEntry } from './audit.ts';
+import { openEventStream, publishUserEvent } from './userEvents.ts';
+import { currentPrincipal } from './auth.ts';
+import type { BatchOperation, BatchReport, BatchRequest, BatchResult } from './userBatch.ts';
+import {
+    csvRecords, ndjsonRecords, exportLines, limitedBody, limitedRows, EXPORT_FORMATS, EXPORT_MEDIA_TYPES,
+    type ExportFormat, type ImportRecord, type ImportReport, type ImportRowResult
+} from './userTransfer.ts';
 
-interface CreateUserInput {
+export interface CreateUserInput {
     name: string;
     email: string;
     age: number;
+    // Plain text on the way in; only its hash is ever stored
+    password?: string;
+    // Only admins may set these (see policy.ts); new users default to "employee"
+    role?: Role;
+    employeesUnder?: UserId[];
 }
 
-interface UserData{
-    id: number;
+export interface UserData{
+    // number with the default counter ids, string with uuid/ulid
+    id: UserId;
     name: string;
     email: string;
     age: number;
+    // scrypt hash (see passwords.ts); users without one cannot log in
+    passwordHash?: string;
+    role: Role;
+    // Direct reports of a manager, as in the Manager interface of Interfaces.ts
+    employeesUnder?: UserId[];
+    // Set by DELETE (ISO 8601): the user is hidden until restored or purged
+    deletedAt?: string;
 }
 
-/* MOCK DATA (FAKE DATABASE) */
-const users = [
-    { id: 1, name: "Alice", email: "alice@example.com", age: 28 },
-    { id: 2, name: "Bob", email: "bob@example.com", age: 34 },
-    { id: 3, name: "Charlie", email: "charlie@example.com", age: 25 }
+// What clients see: the stored user minus its credentials
+export type PublicUser = Omit<UserData, "passwordHash">;
+
+export function toPublicUser(user: UserData): PublicUser {
+    const { passwordHash, ...publicUser } = user;
+    return publicUser;
+}
+
+// A search hit: the user plus how well it matched
+export type UserSearchResult = PublicUser & { score: number };
+
+/* VALIDATION SCHEMA
+Runtime description of CreateUserInput, used by validateBody() in server.js*/
+export const createUserSchema: Schema<CreateUserInput> = {
+    name: { type: "string", min: 1, max: 100 },
+    email: { type: "string", format: "email" },
+    age: { type: "number", integer: true, min: 0, max: 150 },
+    password: { type: "string", optional: true, min: 8, max: 128 },
+    role: { type: "string", optional: true, enum: ROLES },
+    employeesUnder: { type: "array", optional: true, items: { type: "id" }, max: 1000 }
+};
+
+/* RESPONSE SCHEMAS
+Describe what clients receive; used to generate the OpenAPI document (routes.ts)*/
+export const publicUserSchema: Schema<PublicUser> = {
+    id: { type: "id" },
+    name: { type: "string" },
+    email: { type: "string", format: "email" },
+    age: { type: "number", integer: true },
+    role: { type: "string", enum: ROLES },
+    employeesUnder: { type: "array", optional: true, items: { type: "id" } },
+    deletedAt: { type: "string", optional: true }
+};
+
+export const searchScoreSchema: Schema<{ score: number }> = {
+    score: { type: "number" }
+};
+
+/* LIST FIELDS
+Fields accepted by ?sort= and filters on GET /api/users*/
+export const userListFields: ListFields = { name: "string", email: "string", age: "number" };
+
+/* MOCK DATA (FAKE DATABASE)
+Seed for the default in-memory repository, and for an empty store in the
+development and test profiles (config.seedUsers).
+Every seed user logs in with SEED_PASSWORD (development only).
+Alice is the admin, Bob manages Charlie*/
+export const SEED_PASSWORD = "password123";
+const seedHash = hashPasswordSync(SEED_PASSWORD);
+
+export const seedUsers: UserData[] = [
+    { id: 1, name: "Alice", email: "alice@example.com", age: 28, passwordHash: seedHash, role: "admin" },
+    { id: 2, name: "Bob", email: "bob@example.com", age: 34, passwordHash: seedHash, role: "manager", employeesUnder: [3] },
+    { id: 3, name: "Charlie", email: "charlie@example.com", age: 25, passwordHash: seedHash, role: "employee" }
 ]
 
-export function getAllUsers(req: Request, res: Response): void {
-    res.status(200).json(users);
+/* REPOSITORY
+Handlers depend on the UserRepository interface only.
+server.js (or a test) can swap the backend with useUserRepository().
+Every backend is wrapped so the search index follows its writes*/
+let repository = new SearchableUserRepository(new InMemoryUserRepository(seedUsers));
+
+export function useUserRepository(repo: UserRepository): void {
+    repository = new SearchableUserRepository(repo);
+}
+
+/* SOFT DELETE
+DELETE only stamps `deletedAt`; the user disappears from reads (and can
+no longer log in) but keeps its record, its email and its history until
+POST /:id/restore brings it back or purgeDeletedUsers() removes it*/
+export function isDeleted(user: UserData): boolean {
+    return user.deletedAt !== undefined;
+}
+
+function active(user: UserData | undefined): UserData | undefined {
+    return user && !isDeleted(user) ? user : undefined;
+}
+
+/* LOOKUPS used by auth.ts (deleted users cannot log in nor refresh) */
+export async function findUserByEmail(email: string): Promise<UserData | undefined> {
+    return active(await repository.findByEmail(email));
+}
+
+// `raw` is an id in string form, e.g. the `sub` claim of a token
+export async function findUserByRawId(raw: string): Promise<UserData | undefined> {
+    const userId = repository.parseId(raw);
+    return userId === undefined ? undefined : active(await repository.findById(userId));
+}
+
+/* STARTUP CHECK
+Emails of the mock users still in the store with SEED_PASSWORD, deleted
+ones included (they can be restored): server.js refuses to start in
+production while there are any (e.g. a data/ folder first filled in
+development)*/
+export async function seededAccounts(): Promise<string[]> {
+    const seeded: string[] = [];
+    for (const { email } of seedUsers) {
+        const user = await repository.findByEmail(email);
+        if (user?.passwordHash !== undefined && await verifyPassword(SEED_PASSWORD, user.passwordHash)) seeded.push(email);
+    }
+    return seeded;
+}
+
+/* LOOKUPS used by health checks */
+export async function countUsers(): Promise<number> {
+    return (await repository.findAll()).length;
+}
+
+/* HELPERS
+Successful responses use the ApiResponse<T> envelope (apiResponse.ts).
+Failures are thrown as HttpErrors and rendered by errorHandler() (errors.ts)*/
+// Emails are unique: throws 409 when another user already owns `email`
+// (a deleted user keeps its email, so that it can be restored)
+// `repo` is another store only inside a transaction (see batchUsers)
+async function assertEmailAvailable(email: string, exceptId?: UserId, repo: UserRepository = repository): Promise<void> {
+    const owner = await repo.findByEmail(email);
+    if (owner !== undefined && owner.id !== exceptId) {
+        throw new ConflictError("Email already in use");
+    }
+}
+
+// Parses :id with the repository's id format; throws 400 when it is malformed
+function parseUserId(raw: string): UserId {
+    const userId = repository.parseId(raw);
+    if (userId === undefined) {
+        throw new ValidationError(
+            [{ field: "id", code: "invalid_format", message: "Malformed user id" }],
+            "Invalid user id"
+        );
+    }
+    return userId;
+}
+
+// Deleted users are not found unless `includeDeleted` is set
+async function findUserOrFail(userId: UserId, includeDeleted = false, repo: UserRepository = repository): Promise<UserData> {
+    const user = await repo.findById(userId);
+    if (!user || (!includeDeleted && isDeleted(user))) throw new NotFoundError("User not found");
+    return user;
+}
+
+// ?name=true / ?name=false; absent = false
+function booleanQuery(req: Request, name: string): boolean {
+    const raw = req.query[name];
+    if (raw === undefined || raw === "false") return false;
+    if (raw !== "true") {
+        throw new ValidationError(
+            [{ field: name, code: "invalid_type", message: "Expected true or false" }],
+            "Invalid query parameters"
+        );
+    }
+    return true;
+}
+
+// ?includeDeleted=true: admins only (users:read-deleted), 403 for anyone else
+function includeDeleted(req: Request, policy: AccessPolicy): boolean {
+    if (!booleanQuery(req, "includeDeleted")) return false;
+    policy.assert("users:read-deleted");
+    return true;
+}
+
+// Every kept write ends here: audit entry, then event for GET /events subscribers
+async function changed(res: Response | undefined, action: AuditAction, before: UserData | undefined, after: UserData | undefined): Promise<void> {
+    await recordChange(res, action, before, after);
+    if (action === "create" && after) publishUserEvent("user.created", after, { user: toPublicUser(after) });
+    if ((action === "update" || action === "restore") && after) publishUserEvent("user.updated", after, { user: toPublicUser(after) });
+    if (action === "delete" && before) publishUserEvent("user.deleted", before, { id: before.id });
+    // "purge": the user was already announced as deleted
+}
+
+// Strong ETag of the stored record: any change (password included) gives a new tag
+function userEtag(user: UserData): string {
+    return strongEtag(user);
+}
+
+// For PUT / PATCH / DELETE: If-Match is compared with the stored user at write time (412 on mismatch)
+function ifMatch(req: Request): (current: UserData) => void {
+    return current => assertIfMatch(req, userEtag(current));
+}
+
+// Permissions of the user authenticated by requireAuth (auth.ts)
+async function accessPolicy(res: Response): Promise<AccessPolicy> {
+    const principal = res.locals.auth?.user;
+    if (!principal) throw new UnauthorizedError();
+    return AccessPolicy.for(principal, id => repository.findById(id));
+}
+
+// Role changes need their own permission, and every report must exist
+async function checkRoleChanges(
+    policy: AccessPolicy, input: Pick<Partial<CreateUserInput>, "role" | "employeesUnder">, target?: UserData, repo: UserRepository = repository
+): Promise<void> {
+    if (input.role === undefined && input.employeesUnder === undefined) return;
+    policy.assert("users:manage-roles", target);
+
+    const unknown = [];
+    for (const [index, id] of (input.employeesUnder ?? []).entries()) {
+        const userId = repo.parseId(String(id));
+        if (userId === undefined || userId === target?.id || !active(await repo.findById(userId))) {
+            unknown.push({ field: `employeesUnder[${index}]`, code: "invalid_format" as const, message: "Unknown user" });
+        }
+    }
+    if (unknown.length > 0) throw new ValidationError(unknown, "Invalid request body");
+}
+
+// A manager may edit their reports, but not set a password they could then log in with
+function checkPasswordChange(policy: AccessPolicy, setsPassword: boolean, target: UserData): void {
+    if (setsPassword) policy.assert("users:set-password", target);
+}
+
+/* GET with pagination, sorting and filtering (see listQuery.ts) */
+export async function getAllUsers(req: Request, res: Response<ApiResponse<PublicUser[]>>): Promise<void> {
+    const { includeDeleted: _, ...listParams } = req.query;
+    const parsed = parseListQuery(listParams, userListFields);
+    if (!parsed.ok) {
+        throw new ValidationError(parsed.errors, "Invalid query parameters");
+    }
+    const query = parsed.query;
+    // Only the users the caller may read are listed (and counted)
+    const policy = await accessPolicy(res);
+    const withDeleted = includeDeleted(req, policy);
+    const visible = (await repository.findAll())
+        .filter(user => (withDeleted || !isDeleted(user)) && policy.check("users:read", user).allowed);
+    const { data, total, nextCursor } = applyListQuery(visible, query);
+
+    const path = req.baseUrl + req.path;
+    const usingCursor = query.cursor !== undefined;
+    const links = {
+        self: buildLink(path, req.query, {}),
+        first: buildLink(path, req.query, { page: null, cursor: null }),
+        next: nextCursor === null ? null
+            : usingCursor ? buildLink(path, req.query, { cursor: nextCursor })
+            : buildLink(path, req.query, { page: String(query.page + 1) }),
+        prev: !usingCursor && query.page > 1 ? buildLink(path, req.query, { page: String(query.page - 1) }) : null
+    };
+
+    const users = data.map(toPublicUser);
+    const pagination = {
+        total,
+        limit: query.limit,
+        ...(usingCursor ? {} : { page: query.page }),
+        nextCursor,
+        links
+    };
+    // Express answers 304 itself when If-None-Match matches (see etag.ts)
+    res.setHeader("ETag", strongEtag({ users, pagination }));
+    sendSuccess(res, 200, users, { pagination });
 };
 
-export function createUser(req: Request<{}, {},CreateUserInput>, res: Response): void {
-    const newUser: UserData = {
-        id: users.length + 1,
-        ...req.body};
-    // users.push(newUser);
-    res.status(201).json({ message: "User created successfully", user: newUser });
+/* PASSWORDS
+Hashed before the write, never during it: scrypt takes a while, and a
+transaction (POST /batch?atomic=true) holds the whole store meanwhile*/
+type Hashed<T> = Omit<T, "password"> & { password?: never; passwordHash?: string };
+
+async function hashInput<T extends { password?: string }>(input: T): Promise<Hashed<T>> {
+    const { password, ...rest } = input;
+    return password === undefined ? rest : { ...rest, passwordHash: await hashPassword(password) };
+}
+
+// The record for a validated CreateUserInput: hashes the password, defaults the role
+async function newUserData(input: CreateUserInput): Promise<NewUserData> {
+    const { role = "employee", ...profile } = await hashInput(input);
+    return { ...profile, role };
+}
+
+/* WRITES shared by the single-user routes and POST /batch.
+They check permissions and conflicts, write, and return the stored user;
+the caller records the change in the audit log */
+async function createChecked(repo: UserRepository, policy: AccessPolicy, input: Hashed<CreateUserInput>): Promise<UserData> {
+    policy.assert("users:create");
+    await checkRoleChanges(policy, input, undefined, repo);
+    await assertEmailAvailable(input.email, undefined, repo);
+    const { role = "employee", ...profile } = input;
+    return repo.create({ ...profile, role });
+}
+
+// Writes go back from a copy read earlier: a user deleted in between must
+// not be brought back by it, so the stored record is checked at write time
+function whileActive(precondition?: Precondition): Precondition {
+    return stored => {
+        if (isDeleted(stored)) throw new NotFoundError("User not found");
+        precondition?.(stored);
+    };
+}
+
+async function patchChecked(
+    repo: UserRepository, policy: AccessPolicy, current: UserData, input: Hashed<Partial<CreateUserInput>>, precondition?: Precondition
+): Promise<UserData> {
+    policy.assert("users:update", current);
+    checkPasswordChange(policy, input.passwordHash !== undefined, current);
+    await checkRoleChanges(policy, input, current, repo);
+    if (input.email !== undefined) {
+        await assertEmailAvailable(input.email, current.id, repo);
+    }
+    const patchedUser = await repo.update({ ...current, ...input, id: current.id }, whileActive(precondition));
+    if (!patchedUser) throw new NotFoundError("User not found");
+    return patchedUser;
+}
+
+async function softDeleteChecked(
+    repo: UserRepository, policy: AccessPolicy, current: UserData, precondition?: Precondition
+): Promise<UserData> {
+    policy.assert("users:delete", current);
+    const deletedUser = await repo.update({ ...current, deletedAt: new Date().toISOString() }, whileActive(precondition));
+    if (!deletedUser) throw new NotFoundError("User not found");
+    return deletedUser;
+}
+
+export async function createUser(req: Request<{}, {},CreateUserInput>, res: Response<ApiResponse<PublicUser>>): Promise<void> {
+    const newUser = await createChecked(repository, await accessPolicy(res), await hashInput(req.body));
+    await changed(res, "create", undefined, newUser);
+    res.setHeader("ETag", userEtag(newUser));
+    sendSuccess(res, 201, toPublicUser(newUser));
+}
+
+/* POST /import: CSV (text/csv) or NDJSON (application/x-ndjson), one user per row.
+Rows go through the same checks as POST /api/users, one at a time as they
+arrive; a bad row does not stop the import. ?dryRun=true checks every row
+without creating anything. An `id` column (e.g. from an export) is ignored.
+The body and the row count are capped (413, see userTransfer.ts) */
+export async function importUsers(req: Request, res: Response<ApiResponse<ImportReport>>): Promise<void> {
+    const policy = await accessPolicy(res);
+    policy.assert("users:create");
+    const dryRun = booleanQuery(req, "dryRun");
+    let records: AsyncIterable<ImportRecord>;
+    if (req.is("text/csv")) records = csvRecords(limitedBody(req), createUserSchema);
+    else if (req.is(["application/x-ndjson", "application/ndjson"])) records = ndjsonRecords(limitedBody(req));
+    else throw new UnsupportedMediaTypeError("Send text/csv or application/x-ndjson");
+
+    const report: ImportReport = { dryRun, created: 0, skipped: 0, failed: 0, rows: [] };
+    const seenEmails = new Set<string>();
+    for await (const record of limitedRows(records)) {
+        const result = await importRow(res, policy, record, seenEmails, dryRun);
+        report[result.status]++;
+        report.rows.push(result);
+    }
+    sendSuccess(res, 200, report);
+}
+
+async function importRow(
+    res: Response, policy: AccessPolicy, record: ImportRecord, seenEmails: Set<string>, dryRun: boolean
+): Promise<ImportRowResult> {
+    const { line } = record;
+    if ("error" in record) return { line, status: "failed", reason: record.error };
+
+    const { id: _, ...row } = record.value;
+    const errors = validate(createUserSchema, row);
+    if (errors.length > 0) return { line, status: "failed", reason: "Invalid row", errors };
+    const input = row as unknown as CreateUserInput;
+    const email = input.email;
+
+    // Existing users (and earlier rows of the same file) are left alone
+    if (seenEmails.has(email) || await repository.findByEmail(email)) {
+        return { line, status: "skipped", email, reason: "Email already in use" };
+    }
+    try {
+        await checkRoleChanges(policy, input);
+    } catch (err) {
+        if (err instanceof ValidationError) return { line, status: "failed", email, reason: "Invalid row", errors: err.details };
+        if (err instanceof ForbiddenError) return { line, status: "failed", email, reason: err.message };
+        throw err;
+    }
+    seenEmails.add(email);
+    if (dryRun) return { line, status: "created", email };
+    // Checked again with nothing in between: a user created since the check above must not be duplicated
+    const data = await newUserData(input);
+    const newUser = await repository.transaction(async tx => await tx.findByEmail(email) ? undefined : tx.create(data));
+    if (!newUser) return { line, status: "skipped", email, reason: "Email already in use" };
+    await changed(res, "create", undefined, newUser);
+    return { line, status: "created", id: newUser.id, email };
+}
+
+/* GET /export?format=csv|ndjson|json: every user the caller may read, without
+credentials. Streamed as the store is walked, never built in memory */
+const EXPORT_COLUMNS: readonly (keyof PublicUser)[] = ["id", "name", "email", "age", "role", "employeesUnder"];
+
+export async function exportUsers(req: Request, res: Response): Promise<void> {
+    const format = req.query.format ?? "json";
+    if (typeof format !== "string" || !EXPORT_FORMATS.includes(format as ExportFormat)) {
+        throw new ValidationError(
+            [{ field: "format", code: "invalid_format", message: `Expected one of: ${EXPORT_FORMATS.join(", ")}` }],
+            "Invalid query parameters"
+        );
+    }
+    const policy = await accessPolicy(res);
+    async function* readable(): AsyncGenerator<PublicUser> {
+        for await (const user of repository.iterate()) {
+            if (!isDeleted(user) && policy.check("users:read", user).allowed) yield toPublicUser(user);
+        }
+    }
+
+    res.type(EXPORT_MEDIA_TYPES[format as ExportFormat]);
+    res.attachment(`users.${format}`);
+    try {
+        await pipeline(Readable.from(exportLines(format as ExportFormat, EXPORT_COLUMNS, readable())), res);
+    } catch (err) {
+        // The client went away mid-download: nothing left to answer
+        if (res.destroyed) return;
+        throw err;
+    }
 }
 
-export function getUserById(req: Request <{id: string}>, res: Response): void {
-    const userId: number = parseInt(req.params.id, 10);
-    const user = users.find(u => u.id === userId);
-    if (user) {
-        res.status(200).json(user);
+/* POST /batch: create / update / delete operations in one call (see userBatch.ts) */
+type Change = [action: AuditAction, before: UserData | undefined, after: UserData | undefined];
+
+// An operation whose data is validated and whose password is hashed, ready to be written
+type PreparedOperation =
+    | { op: "create"; input: Hashed<CreateUserInput> }
+    | { op: "update"; id: UserId; input: Hashed<Partial<CreateUserInput>> }
+    | { op: "delete"; id: UserId };
+
+// Thrown inside the transaction to roll an atomic batch back
+class BatchAborted extends Error {}
+
+export async function batchUsers(req: Request<{}, {}, BatchRequest>, res: Response<ApiResponse<BatchReport>>): Promise<void> {
+    const atomic = booleanQuery(req, "atomic");
+    const policy = await accessPolicy(res);
+    const { operations } = req.body;
+    let results: BatchResult[] = [];
+    const changes: Change[] = [];
+    let committed = true;
+
+    if (atomic) {
+        // Everything slow or checkable up front happens before the transaction,
+        // which then holds the store only for the writes themselves
+        const prepared: PreparedOperation[] = [];
+        for (const [index, operation] of operations.entries()) {
+            try {
+                prepared.push(await prepareBatchOperation(operation));
+            } catch (err) {
+                results.push(batchFailure(index, operation, err));
+                committed = false;
+                break;
+            }
+        }
+        if (committed) {
+            try {
+                await repository.transaction(async tx => {
+                    for (const [index, operation] of prepared.entries()) {
+                        const result = await applyBatchOperation(tx, policy, index, operation, changes)
+                            .catch(err => batchFailure(index, operations[index]!, err));
+                        results.push(result);
+                        if (result.error) throw new BatchAborted();
+                    }
+                });
+            } catch (err) {
+                if (!(err instanceof BatchAborted)) throw err;
+                committed = false;
+            }
+        }
     } else {
-        res.status(404).json({ message: "User not found" });
+        for (const [index, operation] of operations.entries()) {
+            results.push(await prepareBatchOperation(operation)
+                .then(prepared => applyBatchOperation(repository, policy, index, prepared, changes))
+                .catch(err => batchFailure(index, operation, err)));
+        }
+    }
+
+    if (committed) {
+        // Audited only once kept: a rolled-back change never happened
+        for (const [action, before, after] of changes) await changed(res, action, before, after);
+    } else {
+        // The last result is the failure: the operations applied before it are rolled back, the others never ran
+        const failed = results[results.length - 1]!;
+        const applied = new Set(results.filter(r => !r.error).map(r => r.index));
+        results = operations.map((operation, index) => index === failed.index ? failed : {
+            index, op: operation.op, status: 424,
+            error: {
+                code: "failed_dependency",
+                message: `${applied.has(index) ? "Rolled back" : "Not attempted"}: operation ${failed.index} failed`
+            }
+        });
+    }
+
+    const succeeded = results.filter(r => !r.error).length;
+    sendSuccess(res, 200, { atomic, committed, succeeded, failed: results.length - succeeded, results });
+}
+
+// The result of an operation that failed with an HttpError; anything else is a bug and is rethrown
+function batchFailure(index: number, operation: BatchOperation, err: unknown): BatchResult {
+    if (!(err instanceof HttpError)) throw err;
+    const details = err instanceof ValidationError ? { details: err.details } : {};
+    return {
+        index, op: operation.op, status: err.status,
+        ...(operation.id === undefined ? {} : { id: operation.id }),
+        error: { code: err.code, message: err.message, ...details }
+    };
+}
+
+async function prepareBatchOperation(operation: BatchOperation): Promise<PreparedOperation> {
+    switch (operation.op) {
+        case "create":
+            return { op: "create", input: await hashInput(batchData<CreateUserInput>(operation, false)) };
+        case "update": {
+            const id = batchTarget(operation);
+            return { op: "update", id, input: await hashInput(batchData<Partial<CreateUserInput>>(operation, true)) };
+        }
+        case "delete":
+            return { op: "delete", id: batchTarget(operation) };
     }
-};
\ No newline at end of file
+}
+
+async function applyBatchOperation(
+    repo: UserRepository, policy: AccessPolicy, index: number, operation: PreparedOperation, changes: Change[]
+): Promise<BatchResult> {
+    const { op } = operation;
+    switch (op) {
+        case "create": {
+            const newUser = await createChecked(repo, policy, operation.input);
+            changes.push(["create", undefined, newUser]);
+            return { index, op, status: 201, id: newUser.id, data: toPublicUser(newUser) };
+        }
+        case "update": {
+            const current = await findUserOrFail(operation.id, false, repo);
+            const patchedUser = await patchChecked(repo, policy, current, operation.input);
+            changes.push(["update", current, patchedUser]);
+            return { index, op, status: 200, id: patchedUser.id, data: toPublicUser(patchedUser) };
+        }
+        case "delete": {
+            const current = await findUserOrFail(operation.id, false, repo);
+            const deletedUser = await softDeleteChecked(repo, policy, current);
+            changes.push(["delete", current, deletedUser]);
+            return { index, op, status: 204, id: deletedUser.id };
+        }
+    }
+}
+
+// `data` checked against createUserSchema, like the body of POST / PATCH
+function batchData<T>(operation: BatchOperation, partial: boolean): T {
+    const issues = validate(createUserSchema, operation.data ?? {}, { partial });
+    if (issues.length > 0) {
+        throw new ValidationError(issues.map(issue => ({ ...issue, field: `data.${issue.field}` })), "Invalid operation data");
+    }
+    return (operation.data ?? {}) as T;
+}
+
+function batchTarget(operation: BatchOperation): UserId {
+    if (operation.id === undefined) {
+        throw new ValidationError([{ field: "id", code: "required", message: "Field is required" }], "Invalid operation");
+    }
+    return parseUserId(String(operation.id));
+}
+
+/* GET /events: Server-Sent Events for the users the caller may read (see userEvents.ts) */
+// The policy is rebuilt before events go out, so revoked tokens, deletions and role changes apply to open streams
+export async function streamUserEvents(req: Request, res: Response): Promise<void> {
+    const auth = res.locals.auth;
+    if (!auth) throw new UnauthorizedError();
+    openEventStream(req, res, auth.expiresAt, async () => {
+        const principal = await currentPrincipal(auth);
+        if (!principal) return undefined;
+        const policy = await AccessPolicy.for(principal, id => repository.findById(id));
+        return subject => policy.check("users:read", subject).allowed;
+    });
+}
+
+/* GET /search?q=: fuzzy, typo-tolerant match on name and email (see userSearch.ts) */
+export async function searchUsers(req: Request, res: Response<ApiResponse<UserSearchResult[]>>): Promise<void> {
+    const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    if (q === "") {
+        throw new ValidationError(
+            [{ field: "q", code: "required", message: "Search text is required" }],
+            "Invalid query parameters"
+        );
+    }
+    const limit = Number(req.query.limit ?? DEFAULT_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        throw new ValidationError(
+            [{ field: "limit", code: "invalid_type", message: `Expected an integer from 1 to ${MAX_LIMIT}` }],
+            "Invalid query parameters"
+        );
+    }
+    // Only the users the caller may read are ranked (and counted)
+    const policy = await accessPolicy(res);
+    const { hits, total } = await repository.search(q, limit, user => !isDeleted(user) && policy.check("users:read", user).allowed);
+    const data = hits.map(hit => ({ ...toPublicUser(hit.user), score: hit.score }));
+    sendSuccess(res, 200, data, { pagination: { total, limit } });
+}
+
+export async function getUserById(req: Request <{id: string}>, res: Response<ApiResponse<PublicUser>>): Promise<void> {
+    const userId = parseUserId(req.params.id);
+    const policy = await accessPolicy(res);
+    const user = await findUserOrFail(userId, includeDeleted(req, policy));
+    policy.assert("users:read", user);
+    res.setHeader("ETag", userEtag(user));
+    sendSuccess(res, 200, toPublicUser(user));
+};
+
+/* PUT: replaces every profile field of the user (the id is kept, and so are
+the password, role and reports unless new ones are sent) */
+export async function updateUser(req: Request<{id: string}, {}, CreateUserInput>, res: Response<ApiResponse<PublicUser>>): Promise<void> {
+    const current = await findUserOrFail(parseUserId(req.params.id));
+    const policy = await accessPolicy(res);
+    policy.assert("users:update", current);
+    checkPasswordChange(policy, req.body.password !== undefined, current);
+    await checkRoleChanges(policy, req.body, current);
+    await assertEmailAvailable(req.body.email, current.id);
+    const { name, email, age, password, role = current.role, employeesUnder = current.employeesUnder } = req.body;
+    const passwordHash = password === undefined ? current.passwordHash : await hashPassword(password);
+    const updatedUser = await repository.update({
+        id: current.id, name, email, age, role,
+        ...(employeesUnder === undefined ? {} : { employeesUnder }),
+        ...(passwordHash === undefined ? {} : { passwordHash })
+    }, whileActive(ifMatch(req)));
+    if (!updatedUser) throw new NotFoundError("User not found");
+    await changed(res, "update", current, updatedUser);
+    res.setHeader("ETag", userEtag(updatedUser));
+    sendSuccess(res, 200, toPublicUser(updatedUser));
+}
+
+/* PATCH: Partial<T> lets the client send only the fields that change */
+export async function patchUser(req: Request<{id: string}, {}, Partial<CreateUserInput>>, res: Response<ApiResponse<PublicUser>>): Promise<void> {
+    const current = await findUserOrFail(parseUserId(req.params.id));
+    const patchedUser = await patchChecked(repository, await accessPolicy(res), current, await hashInput(req.body), ifMatch(req));
+    await changed(res, "update", current, patchedUser);
+    res.setHeader("ETag", userEtag(patchedUser));
+    sendSuccess(res, 200, toPublicUser(patchedUser));
+}
+
+/* DELETE: soft delete, the record stays until the retention purge (see retention.ts) */
+export async function deleteUser(req: Request<{id: string}>, res: Response): Promise<void> {
+    const current = await findUserOrFail(parseUserId(req.params.id));
+    const deletedUser = await softDeleteChecked(repository, await accessPolicy(res), current, ifMatch(req));
+    await changed(res, "delete", current, deletedUser);
+    res.status(204).send();
+}
+
+/* POST /:id/restore: undoes a soft delete; whoever may delete may restore */
+export async function restoreUser(req: Request<{id: string}>, res: Response<ApiResponse<PublicUser>>): Promise<void> {
+    const current = await findUserOrFail(parseUserId(req.params.id), true);
+    (await accessPolicy(res)).assert("users:delete", current);
+    if (!isDeleted(current)) throw new ConflictError("User is not deleted", "not_deleted");
+    const { deletedAt, ...restored } = current;
+    const restoredUser = await repository.update(restored, stored => {
+        if (!isDeleted(stored)) throw new ConflictError("User is not deleted", "not_deleted");
+    });
+    if (!restoredUser) throw new NotFoundError("User not found");
+    await changed(res, "restore", current, restoredUser);
+    res.setHeader("ETag", userEtag(restoredUser));
+    sendSuccess(res, 200, toPublicUser(restoredUser));
+}
+
+/* RETENTION
+Hard-deletes the users soft-deleted before `cutoff`, for the purge job
+(retention.ts). Audited with no actor: the system did it*/
+export async function purgeDeletedUsers(cutoff: Date): Promise<number> {
+    const expired = (user: UserData) => user.deletedAt !== undefined && Date.parse(user.deletedAt) < cutoff.getTime();
+    let purged = 0;
+    for (const user of (await repository.findAll()).filter(expired)) {
+        // Restored in the meantime: skip it
+        const stillExpired = (stored: UserData) => {
+            if (!expired(stored)) throw new ConflictError("User was restored");
+        };
+        try {
+            if (!await repository.delete(user.id, stillExpired)) continue;
+        } catch (err) {
+            if (err instanceof ConflictError) continue;
+            throw err;
+        }
+        await changed(undefined, "purge", user, undefined);
+        purged++;
+    }
+    return purged;
+}
+
+/* GET /:id/history: the user's audit trail, newest first (see audit.ts).
+Kept after a delete, so only admins (any user) and managers (while the
+user is still in their subtree) can read it */
+export async function getUserHistory(req: Request<{id: string}>, res: Response<ApiResponse<AuditEntry[]>>): Promise<void> {
+    const userId = parseUserId(req.params.id);
+    const page = Number(req.query.page ?? 1);
+    const limit = Number(req.query.limit ?? DEFAULT_LIMIT);
+    const errors = [];
+    if (!Number.isInteger(page) || page < 1) {
+        errors.push({ field: "page", code: "invalid_type" as const, message: "Expected an integer from 1" });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        errors.push({ field: "limit", code: "invalid_type" as const, message: `Expected an integer from 1 to ${MAX_LIMIT}` });
+    }
+    if (errors.length > 0) throw new ValidationError(errors, "Invalid query parameters");
+
+    const target = await repository.findById(userId);
+    (await accessPolicy(res)).assert("users:audit", target);
+    const entries = (await getAuditLog().findByUser(userId)).reverse();
+    if (entries.length === 0 && !target) throw new NotFoundError("User not found");
+    const data = entries.slice((page - 1) * limit, page * limit);
+    sendSuccess(res, 200, data, { pagination: { total: entries.length, limit, page } });
+}
@@ -0,0 +1,102 @@
+import type { CreateUserInput, PublicUser, UserSearchResult } from './users.ts';
+import type { UserId } from './idGenerator.ts';
+import type { PaginationMeta } from './apiResponse.ts';
+import { requestApi, type RequestOptions } from './apiClient.ts';
+
+/* USERS CLIENT
+Typed SDK for /api/users. The types are the ones users.ts uses, so a
+change to CreateUserInput or PublicUser breaks the client at compile
+time instead of at runtime:
+
+    const client = createUsersClient({ baseUrl: "http://localhost:3000", token: () => session.accessToken });
+    const page = await client.getAll({ sort: "-age", filters: { "age[gte]": 25 } });
+    const user = await client.getById(1);
+*/
+export interface UsersClientOptions {
+    baseUrl?: string;                               // "" = same origin (browser)
+    token?: string | (() => string | undefined);    // access token for the Authorization header
+    timeoutMs?: number;
+    retries?: number;
+    fetch?: typeof fetch;
+}
+
+export interface ListUsersParams {
+    page?: number;
+    limit?: number;
+    cursor?: string;
+    sort?: string;                                  // e.g. "age,-name"
+    filters?: Record<string, string | number>;      // e.g. { "age[gte]": 25 }
+}
+
+export interface UsersPage {
+    data: PublicUser[];
+    pagination: PaginationMeta | undefined;
+}
+
+// Per-call options: cancel with an AbortSignal or override the client defaults
+export type CallOptions = Pick<RequestOptions, "signal" | "timeoutMs" | "retries">;
+
+export interface UsersClient {
+    getAll(params?: ListUsersParams, options?: CallOptions): Promise<UsersPage>;
+    getById(id: UserId, options?: CallOptions): Promise<PublicUser>;
+    search(q: string, limit?: number, options?: CallOptions): Promise<UserSearchResult[]>;
+    create(input: CreateUserInput, options?: CallOptions): Promise<PublicUser>;
+    update(id: UserId, input: CreateUserInput, options?: CallOptions): Promise<PublicUser>;
+    patch(id: UserId, changes: Partial<CreateUserInput>, options?: CallOptions): Promise<PublicUser>;
+    delete(id: UserId, options?: CallOptions): Promise<void>;
+}
+
+export function createUsersClient(clientOptions: UsersClientOptions = {}): UsersClient {
+    const baseUrl = (clientOptions.baseUrl ?? "").replace(/\/$/, "");
+
+    function url(path: string, query: Record<string, string | number | undefined> = {}): string {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(query)) {
+            if (value !== undefined) params.set(key, String(value));
+        }
+        const search = params.toString();
+        return `${baseUrl}/api/users${path}${search ? `?${search}` : ""}`;
+    }
+
+    function send<T>(target: string, options: RequestOptions & CallOptions = {}) {
+        const token = typeof clientOptions.token === "function" ? clientOptions.token() : clientOptions.token;
+        const request: RequestOptions = { ...options, headers: token ? { Authorization: `Bearer ${token}` } : {} };
+        const timeoutMs = options.timeoutMs ?? clientOptions.timeoutMs;
+        const retries = options.retries ?? clientOptions.retries;
+        if (timeoutMs !== undefined) request.timeoutMs = timeoutMs;
+        if (retries !== undefined) request.retries = retries;
+        if (clientOptions.fetch) request.fetch = clientOptions.fetch;
+        return requestApi<T>(target, request);
+    }
+
+    const path = (id: UserId) => `/${encodeURIComponent(String(id))}`;
+
+    return {
+        async getAll(params = {}, options) {
+            const { filters, ...paging } = params;
+            const response = await send<PublicUser[]>(url("", { ...paging, ...filters }), options);
+            return { data: response.data, pagination: response.meta.pagination };
+        },
+        async getById(id, options) {
+            return (await send<PublicUser>(url(path(id)), options)).data;
+        },
+        async search(q, limit, options) {
+            return (await send<UserSearchResult[]>(url("/search", { q, limit }), options)).data;
+        },
+        async create(input, options) {
+            return (await send<PublicUser>(url(""), { ...options, method: "POST", body: input })).data;
+        },
+        async update(id, input, options) {
+            return (await send<PublicUser>(url(path(id)), { ...options, method: "PUT", body: input })).data;
+        },
+        async patch(id, changes, options) {
+            return (await send<PublicUser>(url(path(id)), { ...options, method: "PATCH", body: changes })).data;
+        },
+        async delete(id, options) {
+            await send<undefined>(url(path(id)), { ...options, method: "DELETE" });
+        }
+    };
+}
+
+// Same-origin instance for browser code: usersClient.getAll()
+export const usersClient: UsersClient = createUsersClient();
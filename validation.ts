@@ -0,0 +1,146 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ValidationError } from './errors.ts';
+
+/* SCHEMA TYPES
+A schema lists one rule per property of T, so adding a field to the
+interface without describing it here is a compile-time error*/
+export interface FieldRule {
+    // "id" accepts a positive integer or a non-empty string (every id format), "any" any JSON value
+    type: "string" | "number" | "boolean" | "id" | "array" | "object" | "any";
+    optional?: boolean;
+    integer?: boolean;
+    format?: "email";
+    enum?: readonly string[];   // allowed values of a string field
+    items?: FieldRule;          // rule for every element of an array
+    fields?: Record<string, FieldRule>;     // rules for the properties of an object
+    min?: number;   // smallest number / shortest string / fewest items
+    max?: number;   // largest number / longest string / most items
+}
+
+export type Schema<T> = { [K in keyof T]-?: FieldRule };
+
+export type ValidationCode =
+    | "required"
+    | "invalid_type"
+    | "invalid_format"
+    | "too_small"
+    | "too_large"
+    | "unknown_field";
+
+export interface ValidationIssue {
+    field: string;
+    code: ValidationCode;
+    message: string;
+}
+
+export interface ValidateOptions {
+    // PATCH bodies: every field becomes optional, but present ones are still checked
+    partial?: boolean;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/* RULE CHECKS */
+function hasType(value: unknown, type: FieldRule["type"]): boolean {
+    switch (type) {
+        case "number":
+            return typeof value === "number" && Number.isFinite(value);
+        case "id":
+            return (typeof value === "string" && value.length > 0)
+                || (typeof value === "number" && Number.isSafeInteger(value) && value > 0);
+        case "array":
+            return Array.isArray(value);
+        case "object":
+            return typeof value === "object" && value !== null && !Array.isArray(value);
+        case "any":
+            return true;
+        default:
+            return typeof value === type;
+    }
+}
+
+function checkField(field: string, value: unknown, rule: FieldRule): ValidationIssue | undefined {
+    if (!hasType(value, rule.type)) {
+        return { field, code: "invalid_type", message: `Expected ${rule.type}` };
+    }
+    if (rule.integer && !Number.isInteger(value)) {
+        return { field, code: "invalid_type", message: "Expected an integer" };
+    }
+    if (rule.format === "email" && !EMAIL_PATTERN.test(value as string)) {
+        return { field, code: "invalid_format", message: "Expected an email address" };
+    }
+    if (rule.enum && !rule.enum.includes(value as string)) {
+        return { field, code: "invalid_format", message: `Expected one of: ${rule.enum.join(", ")}` };
+    }
+
+    if (rule.type === "object") {
+        const issue = rule.fields ? validate(rule.fields, value)[0] : undefined;
+        return issue && { ...issue, field: `${field}.${issue.field}` };
+    }
+    if (rule.type === "id" || rule.type === "any") return undefined;
+    const size = typeof value === "string" ? value.trim().length
+        : Array.isArray(value) ? value.length
+        : value as number;
+    if (rule.min !== undefined && size < rule.min) {
+        return { field, code: "too_small", message: `Must be at least ${rule.min}` };
+    }
+    if (rule.max !== undefined && size > rule.max) {
+        return { field, code: "too_large", message: `Must be at most ${rule.max}` };
+    }
+
+    if (Array.isArray(value) && rule.items) {
+        for (const [index, item] of value.entries()) {
+            const issue = checkField(`${field}[${index}]`, item, rule.items);
+            if (issue) return issue;
+        }
+    }
+    return undefined;
+}
+
+/* Returns every problem found in `input`; an empty array means it is valid */
+export function validate<T>(schema: Schema<T>, input: unknown, options: ValidateOptions = {}): ValidationIssue[] {
+    if (typeof input !== "object" || input === null || Array.isArray(input)) {
+        return [{ field: "body", code: "invalid_type", message: "Expected a JSON object" }];
+    }
+
+    const issues: ValidationIssue[] = [];
+    const data = input as Record<string, unknown>;
+    const rules = Object.entries(schema) as [string, FieldRule][];
+
+    for (const [field, rule] of rules) {
+        const value = data[field];
+        if (value === undefined) {
+            if (!rule.optional && !options.partial) {
+                issues.push({ field, code: "required", message: "Field is required" });
+            }
+            continue;
+        }
+        const issue = checkField(field, value, rule);
+        if (issue) issues.push(issue);
+    }
+
+    for (const field of Object.keys(data)) {
+        if (!Object.hasOwn(schema, field)) {
+            issues.push({ field, code: "unknown_field", message: "Field is not allowed" });
+        }
+    }
+    return issues;
+}
+
+/* Type guard version of validate(): narrows `input` to T when it passes */
+export function isValid<T>(schema: Schema<T>, input: unknown): input is T {
+    return validate(schema, input).length === 0;
+}
+
+/* EXPRESS MIDDLEWARE
+Rejects the request with 400 (see errors.ts) before it reaches the route handler*/
+export function validateBody<T>(schema: Schema<T>, options: ValidateOptions = {}): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction): void => {
+        const errors = validate(schema, req.body, options);
+        if (errors.length > 0) {
+            next(new ValidationError(errors, "Invalid request body"));
+            return;
+        }
+        next();
+    };
+}